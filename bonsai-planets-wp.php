@@ -159,6 +159,19 @@ class Bonsai_Planets {
                 'min-tree-height'    => '0.5',
                 'max-tree-height'    => '0.8',
                 'vegetation-density' => '0.5',
+                'wind-sway'          => 'true',
+                'axial-tilt'         => '23.5',
+                'equator-temperature' => '0.9',
+                'pole-temperature'   => '0.05',
+                'ice-caps'           => 'false',
+                'seasons'            => 'false',
+                'rain-shadow'        => 'false',
+                'biome-transition'   => '0.08',
+                'tectonics'          => 'false',
+                'craters'            => 'false',
+                'erosion'            => 'false',
+                'hydrology'          => 'false',
+                'models-url'         => '',
                 'class'              => '',
             ),
             $atts,
@@ -89,6 +89,7 @@ if (!function_exists('bonsai_planets_shortcode')):
             'controls' => 'true',
             'autorotate' => 'true',
             'resolution' => '6',
+            'seed' => '',
         ], $atts);
         
         // Enqueue required assets
@@ -2,7 +2,41 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import '../styles/app.css';
 import { biomePresets, planetPresets } from './worlds/presets';
-import { Biome } from './worlds/biome';
+import { Biome, type VegetationItem } from './worlds/biome';
+import { CraterField } from './worlds/terrain/craters';
+import { buildSphereGraph } from './worlds/helper/sphere-graph';
+import { scatterOnSphere } from './worlds/vegetation/poisson';
+import { createInstancedBatches, createTemplates, type ModelInstance } from './worlds/vegetation/instancing';
+import { isTreeModel, loadModelReferences } from './worlds/models';
+import { Random, randomSeed } from './utils/random';
+
+// Height of the water sphere, before it is scaled up to avoid z-fighting
+const WATER_LEVEL = -0.02;
+const WATER_SCALE = 1.01;
+// Item density at which an item grows at every blue noise point of its
+// ground, and the density of items that set none
+const FULL_VEGETATION_DENSITY = 100;
+const DEFAULT_VEGETATION_DENSITY = 20;
+// Spacing on the unit sphere for items that set no minimum distance
+const VEGETATION_SPACING = 0.04;
+// Height of trees and of smaller plants and rocks
+const TREE_SIZE = 0.05;
+const PLANT_SIZE = 0.015;
+// Largest share of the water depth a sea floor item may fill
+const UNDERWATER_FILL = 0.8;
+// Depth below sea level at which the sea floor is fully rippled and
+// tinted, and how much of the sea colour it takes in the shallows and deep
+const SEABED_DEPTH = 0.03;
+const SEABED_SHALLOW_TINT = 0.35;
+const SEABED_DEEP_TINT = 0.85;
+
+/**
+ * A vegetation item placed on the terrain, before its ground is raised
+ */
+interface PlacedVegetation {
+  item: VegetationItem;
+  position: THREE.Vector3;
+}
 
 // Initialize planets when DOM is loaded
 document.addEventListener('DOMContentLoaded', () => {
@@ -116,11 +150,21 @@ function generatePlanet(preset: string, container: HTMLElement) {
   
   // Get planet options
   const planetOptions = planetPresets[preset] || planetPresets.forest;
-  const biomePreset = biomePresets[planetOptions.biome.preset] || biomePresets.forest;
+  const presetOptions = biomePresets[planetOptions.biome.preset] || biomePresets.forest;
+  
+  // Seed the preset so the same preset and seed always give the same world
+  const seed = parseInt(container.dataset.seed || '', 10);
+  const biomePreset = Number.isNaN(seed) ? presetOptions : Biome.withSeed(presetOptions, seed);
+  const worldSeed = Number.isNaN(seed) ? randomSeed() : seed;
   
   // Create biome
   const biome = new Biome(biomePreset);
   
+  // Scatter impact craters for presets that ask for them
+  const craters = planetOptions.craters
+    ? new CraterField(worldSeed, planetOptions.craters)
+    : undefined;
+  
   // Create detailed planet geometry
   const resolution = parseInt(container.dataset.resolution || '6', 10);
   const planetGeometry = new THREE.IcosahedronGeometry(1, resolution);
@@ -144,30 +188,46 @@ function generatePlanet(preset: string, container: HTMLElement) {
   // Clone geometry for water
   const waterGeometry = planetGeometry.clone();
 
-  // Generate terrain
-  generateTerrain(planetGeometry, biome);
-  generateWater(waterGeometry);
+  // Generate terrain, keeping vegetation out of the sea
+  const seaLevel = planetOptions.hasOcean !== false ? (1 + WATER_LEVEL) * WATER_SCALE - 1 : -Infinity;
+  const vegetation = generateTerrain(planetGeometry, biome, craters, worldSeed, seaLevel);
   
-  // Create meshes
+  // Create ground mesh
   const groundMesh = new THREE.Mesh(planetGeometry, groundMaterial);
-  const waterMesh = new THREE.Mesh(waterGeometry, waterMaterial);
-  waterMesh.scale.setScalar(1.01); // Slightly larger to avoid z-fighting
-  
-  // Add meshes to group
   planetGroup.add(groundMesh);
-  planetGroup.add(waterMesh);
   
-  // Add atmosphere
-  const atmosphere = createAtmosphere(biomePreset);
-  planetGroup.add(atmosphere);
+  // Draw the vegetation on its ground
+  planetGroup.add(createVegetation(vegetation, worldSeed, seaLevel));
+  
+  // Add water unless the preset is dry
+  if (planetOptions.hasOcean !== false) {
+    generateWater(waterGeometry);
+    const waterMesh = new THREE.Mesh(waterGeometry, waterMaterial);
+    waterMesh.scale.setScalar(WATER_SCALE); // Slightly larger to avoid z-fighting
+    planetGroup.add(waterMesh);
+  }
+  
+  // Add atmosphere unless the preset is airless
+  if (planetOptions.hasAtmosphere !== false) {
+    const atmosphere = createAtmosphere(biomePreset);
+    planetGroup.add(atmosphere);
+  }
   
   return planetGroup;
 }
 
 /**
- * Generate terrain with height and color based on noise
+ * Generate terrain with height and color based on noise, ripple and tint
+ * the sea floor, then raise and tint the ground under the biome's vegetation
+ * @returns The vegetation placed on the terrain
  */
-function generateTerrain(geometry: THREE.BufferGeometry, biome: Biome) {
+function generateTerrain(
+  geometry: THREE.BufferGeometry,
+  biome: Biome,
+  craters?: CraterField,
+  seed: number = randomSeed(),
+  seaLevel: number = -Infinity
+): PlacedVegetation[] {
   // Get position attribute
   const positionAttribute = geometry.getAttribute('position') as THREE.BufferAttribute;
   const positions = positionAttribute.array;
@@ -175,11 +235,11 @@ function generateTerrain(geometry: THREE.BufferGeometry, biome: Biome) {
   // Create arrays for colors and modified positions
   const colors = new Float32Array(positions.length);
   const newPositions = new Float32Array(positions.length);
+  const heights = new Float32Array(positions.length / 3);
+  const normalizedHeights = new Float32Array(positions.length / 3);
+  const ejecta = new Float32Array(positions.length / 3);
   
-  // Create an array to store face info (for computing normals later)
-  const faces = [];
-  
-  // Process vertices
+  // Displace vertices
   for (let i = 0; i < positions.length; i += 3) {
     // Get original position
     const x = positions[i];
@@ -189,23 +249,50 @@ function generateTerrain(geometry: THREE.BufferGeometry, biome: Biome) {
     // Create position vector
     const pos = new THREE.Vector3(x, y, z).normalize();
     
-    // Get height from biome
-    const height = biome.getHeight(pos);
+    // Get height from biome, with craters stamped on top
+    const crater = craters ? craters.sample(pos) : undefined;
+    let height = biome.getHeight(pos) + (crater ? crater.height : 0);
+    
+    // Ripple the sea floor, fading in from the shore
+    if (height < seaLevel) {
+      height += biome.getSeaHeight(pos) * THREE.MathUtils.smoothstep(seaLevel - height, 0, SEABED_DEPTH);
+    }
+    heights[i / 3] = height;
+    ejecta[i / 3] = crater ? crater.ejecta : 0;
     
     // Apply height to position
     newPositions[i] = pos.x * (1 + height);
     newPositions[i + 1] = pos.y * (1 + height);
     newPositions[i + 2] = pos.z * (1 + height);
+  }
+  
+  // Steepness from the displaced surface
+  const steepness = computeSteepness(newPositions);
+  
+  // Colour vertices
+  for (let i = 0; i < positions.length; i += 3) {
+    const pos = new THREE.Vector3(positions[i], positions[i + 1], positions[i + 2]).normalize();
+    const height = heights[i / 3];
     
     // Calculate normalized height for coloring
-    // Map from min-max height to -1 to 1 range
-    const normalizedHeight = (height - biome.min) / (biome.max - biome.min) * 2 - 1;
-    
-    // Calculate steepness (unused for now, could be used for more advanced coloring)
-    const steepness = 0;
+    // Map from min-max height to -1 to 1 range; craters can dig below it
+    const normalizedHeight = THREE.MathUtils.clamp((height - biome.min) / (biome.max - biome.min) * 2 - 1, -1, 1);
+    normalizedHeights[i / 3] = normalizedHeight;
     
     // Get color from biome
-    const color = biome.getColor(pos, normalizedHeight, steepness);
+    const color = biome.getColor(pos, normalizedHeight, steepness[i / 3]);
+    
+    // Show shallow shelves through the water, darkening into the deep
+    if (height < seaLevel) {
+      const depth = THREE.MathUtils.smoothstep(seaLevel - height, 0, SEABED_DEPTH);
+      const tint = SEABED_SHALLOW_TINT + (SEABED_DEEP_TINT - SEABED_SHALLOW_TINT) * depth;
+      color.lerp(biome.getSeaColor(pos, normalizedHeight), tint);
+    }
+    
+    // Brighten fresh crater ejecta
+    if (ejecta[i / 3] > 0) {
+      color.lerp(new THREE.Color(0xdedad2), Math.min(1, ejecta[i / 3]) * 0.7);
+    }
     
     // Set color
     colors[i] = color.r;
@@ -213,12 +300,234 @@ function generateTerrain(geometry: THREE.BufferGeometry, biome: Biome) {
     colors[i + 2] = color.b;
   }
   
+  // Grow vegetation, then shape the ground around it
+  const vegetation = placeVegetation(geometry, biome, heights, normalizedHeights, steepness, seed, seaLevel);
+  applyVegetationGround(newPositions, colors, biome);
+  
   // Update geometry
   geometry.setAttribute('position', new THREE.BufferAttribute(newPositions, 3));
   geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
   
   // Compute vertex normals and update the geometry
   geometry.computeVertexNormals();
+  
+  return vegetation;
+}
+
+/**
+ * Scatter the biome's vegetation items as blue noise and record them on
+ * the biome. Items whose maximum height is at or below 0 grow on the sea
+ * floor, the rest on land.
+ * @param geometry - The undisplaced sphere geometry
+ * @returns The placed items
+ */
+function placeVegetation(
+  geometry: THREE.BufferGeometry,
+  biome: Biome,
+  heights: Float32Array,
+  normalizedHeights: Float32Array,
+  steepness: Float32Array,
+  seed: number,
+  seaLevel: number
+): PlacedVegetation[] {
+  const items = biome.options.vegetation?.items ?? [];
+  if (items.length === 0) return [];
+  
+  // One geometry vertex standing for each welded vertex
+  const graph = buildSphereGraph(geometry);
+  const vertexOf = new Uint32Array(graph.positions.length);
+  graph.vertexMap.forEach((v, i) => {
+    vertexOf[v] = i;
+  });
+  
+  const canGrowAt = (item: VegetationItem, v: number) => {
+    const i = vertexOf[v];
+    const underwater = heights[i] < seaLevel;
+    return underwater === isUnderwaterItem(item) && biome.canGrow(item, normalizedHeights[i], steepness[i]);
+  };
+  
+  const scatterItems = items.map(item => {
+    // Items with a ground patch keep their patches from piling up
+    const minimumDistance = item.minimumDistance ?? Math.max(VEGETATION_SPACING, item.ground?.radius ?? 0);
+    const chance = Math.min(1, (item.density ?? DEFAULT_VEGETATION_DENSITY) / FULL_VEGETATION_DENSITY);
+    
+    return {
+      minimumDistance,
+      maximumDistance: item.maximumDistance ?? minimumDistance * 2,
+      chance: (v: number) => (canGrowAt(item, v) ? chance : 0),
+    };
+  });
+  
+  const { points } = scatterOnSphere(graph, scatterItems, new Random(seed + 7001));
+  const placed: PlacedVegetation[] = [];
+  for (const point of points) {
+    const i = vertexOf[point.vertex];
+    const item = items[point.item];
+    const position = point.clone().multiplyScalar(1 + heights[i]);
+    if (biome.addVegetation(item, position, normalizedHeights[i], steepness[i])) {
+      placed.push({ item, position });
+    }
+  }
+  
+  return placed;
+}
+
+/**
+ * Whether a vegetation item grows on the sea floor, i.e. its height limit
+ * is at or below 0
+ */
+function isUnderwaterItem(item: VegetationItem): boolean {
+  return item.maximumHeight !== undefined && item.maximumHeight <= 0;
+}
+
+/**
+ * Draw placed vegetation as instanced models, standing on the raised
+ * ground of items with a ground patch. The models load in the background.
+ * @param placed - Placed vegetation
+ * @param seed - Seed for versions, turns, sizes and colours
+ * @param seaLevel - Height of the water, which sea floor items stay below
+ * @returns Group the vegetation is added to once loaded
+ */
+function createVegetation(placed: PlacedVegetation[], seed: number, seaLevel: number): THREE.Group {
+  const group = new THREE.Group();
+  if (placed.length === 0) return group;
+  
+  const names = [...new Set(placed.map(({ item }) => item.name))];
+  loadModelReferences(names, seed)
+    .then(models => {
+      const { templates, versions } = createTemplates(models);
+      const random = new Random(seed + 7002);
+      const up = new THREE.Vector3(0, 1, 0);
+      const turn = new THREE.Quaternion();
+      const instances: ModelInstance[] = [];
+      
+      for (const { item, position } of placed) {
+        const loaded = versions.get(item.name);
+        if (!loaded) continue;
+        
+        // Stand on top of the item's own ground patch
+        const normal = position.clone().normalize();
+        const base = position.clone().addScaledVector(normal, item.ground?.raise ?? 0);
+        const rotation = new THREE.Quaternion()
+          .setFromUnitVectors(up, normal)
+          .multiply(turn.setFromAxisAngle(up, random.range(0, Math.PI * 2)));
+        let size = (isTreeModel(item.name) ? TREE_SIZE : PLANT_SIZE) * random.range(0.8, 1.2);
+        
+        // Keep sea floor items below the surface
+        if (isUnderwaterItem(item)) {
+          size = Math.min(size, (1 + seaLevel - base.length()) * UNDERWATER_FILL);
+        }
+        
+        instances.push({
+          template: `${item.name}:${random.pick(loaded)}`,
+          matrix: new THREE.Matrix4().compose(base, rotation, new THREE.Vector3().setScalar(size)),
+          // Pick one of the item's colours for each material it recolours
+          colors: item.colors && Object.fromEntries(
+            Object.entries(item.colors)
+              .filter(([, { array }]) => array.length > 0)
+              .map(([material, { array }]) => [material, new THREE.Color(random.pick(array))])
+          )
+        });
+      }
+      
+      group.add(...createInstancedBatches(templates, instances));
+    })
+    .catch(error => console.warn('Error creating vegetation:', error));
+  
+  return group;
+}
+
+/**
+ * Raise and tint the faces under vegetation that has a ground patch, so
+ * trees sit on grassy mounds
+ * @param positions - Displaced, non-indexed vertex positions to raise
+ * @param colors - Vertex colours to tint
+ */
+function applyVegetationGround(positions: Float32Array, colors: Float32Array, biome: Biome) {
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  
+  for (let v = 0; v < positions.length / 3; v += 3) {
+    a.fromArray(positions, v * 3);
+    b.fromArray(positions, v * 3 + 3);
+    c.fromArray(positions, v * 3 + 6);
+    
+    const faceColor = {
+      r: (colors[v * 3] + colors[v * 3 + 3] + colors[v * 3 + 6]) / 3,
+      g: (colors[v * 3 + 1] + colors[v * 3 + 4] + colors[v * 3 + 7]) / 3,
+      b: (colors[v * 3 + 2] + colors[v * 3 + 5] + colors[v * 3 + 8]) / 3,
+    };
+    const sideLength = Math.max(a.distanceTo(b), b.distanceTo(c), c.distanceTo(a));
+    const ground = biome.vegetationHeightAndColorForFace(a, b, c, faceColor, sideLength);
+    
+    // Lift each corner along its direction from the centre
+    [ground.heightA, ground.heightB, ground.heightC].forEach((height, corner) => {
+      if (height === 0) return;
+      
+      const offset = (v + corner) * 3;
+      const corners = [a, b, c];
+      const direction = corners[corner].clone().normalize();
+      positions[offset] += direction.x * height;
+      positions[offset + 1] += direction.y * height;
+      positions[offset + 2] += direction.z * height;
+    });
+    
+    // Flat tint for faces inside a patch
+    const tinted = ground.color.r !== faceColor.r || ground.color.g !== faceColor.g || ground.color.b !== faceColor.b;
+    if (tinted) {
+      for (let corner = 0; corner < 3; corner++) {
+        colors[(v + corner) * 3] = ground.color.r;
+        colors[(v + corner) * 3 + 1] = ground.color.g;
+        colors[(v + corner) * 3 + 2] = ground.color.b;
+      }
+    }
+  }
+}
+
+/**
+ * Steepness of each vertex of a displaced, non-indexed sphere: 1 minus the
+ * cosine between the smooth surface normal and the radial direction, so 0
+ * is flat ground and 1 a vertical wall
+ */
+function computeSteepness(positions: Float32Array): Float32Array {
+  const vertexCount = positions.length / 3;
+  const steepness = new Float32Array(vertexCount);
+  
+  // Weld the copies of each vertex so normals are smooth across faces
+  const normals = new Map<string, THREE.Vector3>();
+  const keys: string[] = [];
+  for (let v = 0; v < vertexCount; v++) {
+    const key = `${Math.round(positions[v * 3] * 1e5)},${Math.round(positions[v * 3 + 1] * 1e5)},${Math.round(positions[v * 3 + 2] * 1e5)}`;
+    keys.push(key);
+    if (!normals.has(key)) normals.set(key, new THREE.Vector3());
+  }
+  
+  // Accumulate area weighted face normals
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const faceNormal = new THREE.Vector3();
+  for (let v = 0; v < vertexCount; v += 3) {
+    a.fromArray(positions, v * 3);
+    b.fromArray(positions, v * 3 + 3);
+    c.fromArray(positions, v * 3 + 6);
+    faceNormal.subVectors(c, b).cross(a.clone().sub(b));
+    
+    for (let corner = 0; corner < 3; corner++) {
+      normals.get(keys[v + corner])!.add(faceNormal);
+    }
+  }
+  
+  // Compare with the radial direction
+  const radial = new THREE.Vector3();
+  for (let v = 0; v < vertexCount; v++) {
+    const normal = normals.get(keys[v])!;
+    radial.fromArray(positions, v * 3).normalize();
+    steepness[v] = Math.max(0, Math.min(1, 1 - normal.clone().normalize().dot(radial)));
+  }
+  
+  return steepness;
 }
 
 /**
@@ -226,7 +535,7 @@ function generateTerrain(geometry: THREE.BufferGeometry, biome: Biome) {
  */
 function generateWater(geometry: THREE.BufferGeometry) {
   // For water, we keep a perfect sphere but at a height just below the lowest terrain point
-  const waterLevel = -0.02; // Adjust as needed
+  const waterLevel = WATER_LEVEL;
   
   // Get position attribute
   const positionAttribute = geometry.getAttribute('position') as THREE.BufferAttribute;
@@ -419,7 +728,7 @@ function generateRandomPlanet(planetGroup: THREE.Group, container: HTMLElement)
   // Create meshes
   const groundMesh = new THREE.Mesh(planetGeometry, groundMaterial);
   const waterMesh = new THREE.Mesh(waterGeometry, waterMaterial);
-  waterMesh.scale.setScalar(1.01); // Slightly larger to avoid z-fighting
+  waterMesh.scale.setScalar(WATER_SCALE); // Slightly larger to avoid z-fighting
   
   // Add meshes to group
   planetGroup.add(groundMesh);
@@ -1,8 +1,26 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Planet, PlanetOptions } from './worlds/planet';
+import { Planet, PlanetOptions, DEFAULT_PLANET_OPTIONS } from './worlds/planet';
+import { validateNoiseGraph } from './worlds/helper/noise-graph';
+import { validateBiomeTable } from './worlds/biome-table';
+import { registerCollection, setModelBasePath } from './worlds/models';
+import { registerModelVariant } from './worlds/vegetation/variants';
 import '../styles/app.css';
 
+// Position of the sun light, which the atmosphere scatters too
+const SUN_POSITION = new THREE.Vector3(5, 3, 5);
+
+// Planets on the page by their container, so scripts can reach them
+const planetsByContainer = new WeakMap<HTMLElement, TinyPlanets>();
+
+/**
+ * Get the planet drawn into a container
+ * @param container - Container the planet was created in
+ */
+function getPlanet(container: HTMLElement): TinyPlanets | undefined {
+  return planetsByContainer.get(container);
+}
+
 /**
  * Extract planet options from container data attributes
  */
@@ -17,11 +35,19 @@ function getPlanetOptionsFromContainer(container: HTMLElement): Partial<PlanetOp
   if (container.dataset.minTreeHeight) options.minTreeHeight = parseFloat(container.dataset.minTreeHeight);
   if (container.dataset.maxTreeHeight) options.maxTreeHeight = parseFloat(container.dataset.maxTreeHeight);
   if (container.dataset.vegetationDensity) options.vegetationDensity = parseFloat(container.dataset.vegetationDensity);
+  if (container.dataset.axialTilt) options.axialTilt = parseFloat(container.dataset.axialTilt);
+  if (container.dataset.equatorTemperature) options.equatorTemperature = parseFloat(container.dataset.equatorTemperature);
+  if (container.dataset.poleTemperature) options.poleTemperature = parseFloat(container.dataset.poleTemperature);
+  if (container.dataset.biomeTransition) options.biomeTransitionWidth = parseFloat(container.dataset.biomeTransition);
   
   // Parse boolean options
   if (container.dataset.hasAtmosphere) options.hasAtmosphere = container.dataset.hasAtmosphere === 'true';
   if (container.dataset.hasOcean) options.hasOcean = container.dataset.hasOcean === 'true';
   if (container.dataset.hasVegetation) options.hasVegetation = container.dataset.hasVegetation === 'true';
+  if (container.dataset.windSway) options.windSway = container.dataset.windSway === 'true';
+  
+  // Hold vegetation still for visitors who prefer reduced motion
+  if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) options.windSway = false;
   
   // Parse color options
   if (container.dataset.waterColor) options.waterColor = new THREE.Color(container.dataset.waterColor);
@@ -30,6 +56,72 @@ function getPlanetOptionsFromContainer(container: HTMLElement): Partial<PlanetOp
   if (container.dataset.snowColor) options.snowColor = new THREE.Color(container.dataset.snowColor);
   if (container.dataset.atmosphereColor) options.atmosphereColor = new THREE.Color(container.dataset.atmosphereColor);
   
+  // Parse ice caps ("true" or a freezing temperature)
+  if (container.dataset.iceCaps && container.dataset.iceCaps !== 'false') {
+    const temperature = parseFloat(container.dataset.iceCaps);
+    options.iceCaps = Number.isNaN(temperature) ? {} : { temperature };
+  }
+  
+  // Parse seasons ("true" or a year length in seconds)
+  if (container.dataset.seasons && container.dataset.seasons !== 'false') {
+    const yearLength = parseFloat(container.dataset.seasons);
+    options.seasons = Number.isNaN(yearLength) ? {} : { yearLength };
+  }
+  
+  // Parse rain shadow ("true" or the orographic rain strength)
+  if (container.dataset.rainShadow && container.dataset.rainShadow !== 'false') {
+    const orographic = parseFloat(container.dataset.rainShadow);
+    options.rainShadow = Number.isNaN(orographic) ? {} : { orographic };
+  }
+  
+  // Parse tectonics ("true" or a plate count)
+  if (container.dataset.tectonics && container.dataset.tectonics !== 'false') {
+    const plateCount = parseInt(container.dataset.tectonics, 10);
+    options.tectonics = Number.isNaN(plateCount) ? {} : { plateCount };
+  }
+  
+  // Parse craters ("true" or a crater count)
+  if (container.dataset.craters && container.dataset.craters !== 'false') {
+    const count = parseInt(container.dataset.craters, 10);
+    options.craters = Number.isNaN(count) ? {} : { count };
+  }
+  
+  // Parse erosion ("true" or a droplet count)
+  if (container.dataset.erosion && container.dataset.erosion !== 'false') {
+    const hydraulicIterations = parseInt(container.dataset.erosion, 10);
+    options.erosion = Number.isNaN(hydraulicIterations) ? {} : { hydraulicIterations };
+  }
+  
+  // Parse hydrology ("true" or a river threshold as a fraction of the surface)
+  if (container.dataset.hydrology && container.dataset.hydrology !== 'false') {
+    const riverThreshold = parseFloat(container.dataset.hydrology);
+    options.hydrology = Number.isNaN(riverThreshold) ? {} : { riverThreshold };
+  }
+  
+  // Parse the elevation noise graph (JSON)
+  if (container.dataset.elevation) {
+    try {
+      const elevation = JSON.parse(container.dataset.elevation);
+      validateNoiseGraph(elevation);
+      options.elevation = elevation;
+    } catch (error) {
+      console.warn('Invalid elevation graph in data-elevation, using the default:', error);
+    }
+  }
+  
+  // Parse the biome table (JSON)
+  if (container.dataset.biomes) {
+    try {
+      const biomes = JSON.parse(container.dataset.biomes);
+      // Stops may name the planet colours
+      const { waterColor, landColor, mountainColor, snowColor } = DEFAULT_PLANET_OPTIONS;
+      validateBiomeTable(biomes, { waterColor, landColor, mountainColor, snowColor });
+      options.biomes = biomes;
+    } catch (error) {
+      console.warn('Invalid biome table in data-biomes, using the default:', error);
+    }
+  }
+  
   return options;
 }
 
@@ -59,6 +151,7 @@ export class TinyPlanets {
   constructor(container: HTMLElement, options: Partial<PlanetOptions> = {}) {
     this.container = container;
     this.clock = new THREE.Clock();
+    planetsByContainer.set(container, this);
     
     // Add loading indicator
     const loadingIndicator = document.createElement('div');
@@ -123,7 +216,7 @@ export class TinyPlanets {
     
     // Add directional light (sun)
     const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
-    directionalLight.position.set(5, 3, 5);
+    directionalLight.position.copy(SUN_POSITION);
     directionalLight.castShadow = true;
     
     // Configure shadow properties
@@ -153,6 +246,7 @@ export class TinyPlanets {
     
     // Create new planet
     this.planet = new Planet(options);
+    this.planet.setSunDirection(SUN_POSITION);
     
     // Add planet to scene
     this.planet.addToScene(this.scene);
@@ -217,7 +311,7 @@ export class TinyPlanets {
     // Update planet
     const deltaTime = this.clock.getDelta();
     if (this.planet) {
-      this.planet.update(deltaTime);
+      this.planet.update(deltaTime, this.camera);
     }
     
     // Render scene
@@ -243,6 +337,14 @@ export class TinyPlanets {
     this.createPlanet(options);
   }
   
+  /**
+   * Set the time of year and recolour the terrain, snow and sea ice
+   * @param season - Time of year (0-1, 0 is the northern spring equinox)
+   */
+  setSeason(season: number): void {
+    this.planet?.setSeason(season);
+  }
+  
   /**
    * Clean up resources
    */
@@ -264,6 +366,10 @@ export class TinyPlanets {
     // Dispose of renderer
     this.renderer.dispose();
     
+    if (planetsByContainer.get(this.container) === this) {
+      planetsByContainer.delete(this.container);
+    }
+    
     // Remove renderer from DOM
     if (this.renderer.domElement.parentNode) {
       this.renderer.domElement.parentNode.removeChild(this.renderer.domElement);
@@ -274,7 +380,11 @@ export class TinyPlanets {
 // Make TinyPlanets available globally for WordPress
 if (typeof window !== 'undefined') {
   (window as any).BonsaiPlanets = {
-    TinyPlanets
+    TinyPlanets,
+    getPlanet,
+    registerCollection,
+    registerModelVariant,
+    setModelBasePath
   };
 }
 
@@ -287,6 +397,9 @@ document.addEventListener('DOMContentLoaded', () => {
   
   // Create a TinyPlanets instance for each container
   containers.forEach(container => {
+    // Where the plugin serves its models from
+    if (container.dataset.modelsUrl) setModelBasePath(container.dataset.modelsUrl);
+    
     new TinyPlanets(container, getPlanetOptionsFromContainer(container));
   });
 }); 
\ No newline at end of file
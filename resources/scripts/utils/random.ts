@@ -0,0 +1,89 @@
+/**
+ * Seeded pseudo random number generation.
+ *
+ * Everything procedural (noise permutations, plate layouts, scatter) draws
+ * from these helpers instead of Math.random so that a seed always produces
+ * the same world, independent of browser or page load.
+ */
+
+/**
+ * Normalize any numeric seed (including fractions and negatives) into an
+ * unsigned 32-bit integer.
+ * @param seed - The seed value
+ */
+export function hashSeed(seed: number): number {
+  if (!Number.isFinite(seed)) {
+    return 0;
+  }
+
+  const whole = Math.floor(seed);
+  const fraction = Math.floor((seed - whole) * 0x100000000);
+
+  let h = Math.imul(whole | 0, 0x9e3779b1) ^ fraction;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Mulberry32 - a small, fast PRNG with a 32-bit state
+ * @param seed - The seed value
+ * @returns Function returning values in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let state = hashSeed(seed);
+
+  return () => {
+    let t = (state = (state + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a random seed for callers that did not supply one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
+
+/**
+ * Seeded random generator with a few convenience helpers
+ */
+export class Random {
+  private next: () => number;
+
+  constructor(seed: number) {
+    this.next = mulberry32(seed);
+  }
+
+  /**
+   * Get a value in [0, 1)
+   */
+  value(): number {
+    return this.next();
+  }
+
+  /**
+   * Get a value in [min, max)
+   */
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Get an integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
@@ -0,0 +1,485 @@
+import * as THREE from 'three';
+import { ColorGradient, type ColorGradientOptions } from './helper/colorgradient';
+import { TerrainShaper, validateTerrainShape, type TerrainShape } from './terrain/shaping';
+import type { VegetationItem } from './biome';
+
+/**
+ * Inclusive value range; a missing bound is open
+ */
+export interface BiomeRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Surface value a biome colour gradient is sampled by
+ */
+export type BiomeColorInput = 'temperature' | 'moisture' | 'elevation' | 'slope';
+
+/**
+ * A single row of the biome table
+ */
+export interface BiomeRule {
+  // Biome name stored in the biome data (the built-in table uses BiomeType values)
+  id: string;
+  temperature?: BiomeRange;
+  moisture?: BiomeRange;
+  // Height above the water level; negative under water
+  elevation?: BiomeRange;
+  // Height change per radian of surface distance
+  slope?: BiomeRange;
+  // Gradient stops may use the planet colour names, e.g. 'waterColor'
+  color: {
+    by: BiomeColorInput;
+    gradient: ColorGradientOptions;
+  };
+  // Applied to the height above the water level: h * scale + offset,
+  // then the optional shape
+  height?: {
+    scale?: number;
+    offset?: number;
+    shape?: TerrainShape;
+  };
+  // Models scattered over the biome. Item heights and slopes are measured
+  // like `elevation` and `slope`; density is the share of scatter points
+  // an item takes, in percent
+  vegetation?: VegetationItem[];
+}
+
+/**
+ * The values a point is classified by
+ */
+export interface BiomeSample {
+  temperature: number;
+  moisture: number;
+  elevation: number;
+  slope: number;
+}
+
+/**
+ * Share of a biome in a blended point
+ */
+export interface BiomeWeight {
+  rule: BiomeRule;
+  weight: number;
+}
+
+/**
+ * Planet colours gradient stops can refer to by name
+ */
+export type BiomePalette = Record<string, THREE.Color>;
+
+// Forest grows from moister ground in cool climates than in warm ones, so
+// the table holds a rule for each
+const FOREST_BIOME: BiomeRule = {
+  id: 'forest',
+  color: { by: 'moisture', gradient: [[0, 0x4a873d], [1, 0x1e5631]] },
+  vegetation: [
+    { name: 'CommonTree', density: 40 },
+    { name: 'BirchTree', density: 25 },
+    { name: 'PineTree', density: 15 }
+  ]
+};
+
+/**
+ * Default biome table. Rules are tried in order and the first match wins,
+ * roughly following a Whittaker diagram of temperature against moisture.
+ * Heights are above the water level: snow starts 0.3 above it and the
+ * mountain colour reaches grey 0.6 above it, matching the old absolute
+ * heights at the default water level of 0.4.
+ */
+export const DEFAULT_BIOME_TABLE: BiomeRule[] = [
+  {
+    id: 'ocean',
+    elevation: { max: 0 },
+    color: { by: 'elevation', gradient: [[-0.1, 0x0b2a4a], [0, 'waterColor']] }
+  },
+  {
+    id: 'beach',
+    elevation: { max: 0.01 },
+    color: { by: 'elevation', gradient: [[0, 0xe0d8a8]] },
+    vegetation: [{ name: 'PalmTree', density: 15, minimumHeight: 0.003 }]
+  },
+  {
+    id: 'snow',
+    temperature: { max: 0.2 },
+    elevation: { min: 0.3 },
+    color: { by: 'moisture', gradient: [[0, 'snowColor'], [1, 0xd5f0ff]] }
+  },
+  {
+    id: 'tundra',
+    temperature: { max: 0.2 },
+    moisture: { max: 0.4 },
+    color: { by: 'moisture', gradient: [[0, 0xa09a80], [1, 0x969682]] },
+    vegetation: [
+      { name: 'Rock', density: 10 },
+      { name: 'Grass', density: 15 }
+    ]
+  },
+  {
+    id: 'mountains',
+    temperature: { max: 0.2 },
+    height: { shape: { type: 'ridged', amount: 0.06, scale: 5 } },
+    color: { by: 'elevation', gradient: [[0, 'mountainColor'], [0.6, 0x6b6b6b]] },
+    vegetation: [
+      { name: 'PineTree', density: 40, maximumHeight: 0.3 },
+      { name: 'Rock', density: 15 }
+    ]
+  },
+  {
+    id: 'desert',
+    temperature: { min: 0.7 },
+    moisture: { max: 0.3 },
+    height: { shape: { type: 'dunes', amplitude: 0.006, frequency: 40 } },
+    color: { by: 'temperature', gradient: [[0.7, 0xe6c178], [1.7, 0xb2824d]] },
+    vegetation: [
+      { name: 'Cactus', density: 8 },
+      { name: 'Rock', density: 6 }
+    ]
+  },
+  {
+    id: 'savanna',
+    temperature: { min: 0.7 },
+    moisture: { max: 0.6 },
+    height: { shape: { type: 'plateau', step: 0.03, smoothness: 0.3 } },
+    color: { by: 'moisture', gradient: [[0, 0xccc880], [1, 0x9da855]] },
+    vegetation: [
+      { name: 'Grass', density: 35 },
+      { name: 'CommonTree', density: 8 }
+    ]
+  },
+  {
+    id: 'rainforest',
+    temperature: { min: 0.7 },
+    color: { by: 'moisture', gradient: [[0, 0x2e6e41], [1, 0x124124]] },
+    vegetation: [
+      { name: 'CommonTree', density: 60 },
+      { name: 'PalmTree', density: 25 }
+    ]
+  },
+  {
+    id: 'swamp',
+    temperature: { min: 0.4 },
+    moisture: { min: 0.7 },
+    height: { shape: { type: 'flatten', amount: 0.7, target: 0.004 } },
+    color: { by: 'moisture', gradient: [[0, 0x4d6b50], [1, 0x2d4030]] },
+    vegetation: [
+      { name: 'Willow', density: 35 },
+      { name: 'Grass', density: 25 }
+    ]
+  },
+  { ...FOREST_BIOME, temperature: { min: 0.4 }, moisture: { min: 0.3 } },
+  { ...FOREST_BIOME, moisture: { min: 0.5 } },
+  {
+    id: 'grassland',
+    color: { by: 'moisture', gradient: [[0, 0xbfd064], [1, 0x82a854]] },
+    vegetation: [
+      { name: 'Grass', density: 40 },
+      { name: 'CommonTree', density: 5 },
+      { name: 'Rock', density: 3 }
+    ]
+  }
+];
+
+/**
+ * Polar ice, put in front of the table when ice caps are enabled
+ */
+export const ICE_BIOME_RULE: BiomeRule = {
+  id: 'ice',
+  color: { by: 'temperature', gradient: [[-0.5, 0xc6dcea], [0.15, 0xe2eef6]] }
+};
+
+/**
+ * Bare rock used for every point of airless, dry worlds
+ */
+export const BARREN_BIOME_RULE: BiomeRule = {
+  id: 'barren',
+  color: { by: 'elevation', gradient: [[-0.2, 0x5a5651], [0.2, 0xa39e96]] }
+};
+
+const RANGE_KEYS = ['temperature', 'moisture', 'elevation', 'slope'] as const;
+
+// Biomes blend across temperature and moisture borders only; water lines
+// and cliffs stay sharp
+const BLEND_KEYS = ['temperature', 'moisture'] as const;
+const HARD_KEYS = ['elevation', 'slope'] as const;
+
+/**
+ * Classifies surface points with a list of biome rules
+ */
+export class BiomeTable {
+  readonly rules: BiomeRule[];
+  private gradients: ColorGradient[];
+  private shaper: TerrainShaper;
+
+  /**
+   * @param rules - Biome rules, tried in order
+   * @param palette - Named planet colours gradient stops may refer to
+   * @param seed - Seed for the terrain shape noise
+   */
+  constructor(rules: BiomeRule[], palette: BiomePalette = {}, seed: number = 0) {
+    validateBiomeTable(rules, palette);
+
+    this.rules = rules;
+    this.shaper = new TerrainShaper(seed);
+    this.gradients = rules.map(rule => new ColorGradient(
+      rule.color.gradient.map(stop => {
+        const [position, color] = Array.isArray(stop) ? stop : [stop.position, stop.color];
+        return [position, typeof color === 'string' && palette[color] ? palette[color] : color];
+      })
+    ));
+  }
+
+  /**
+   * Find the rule for a point: the first rule whose ranges all contain it,
+   * or else the rule it misses by the least
+   */
+  classify(sample: BiomeSample): BiomeRule {
+    let closest = this.rules[0];
+    let closestMiss = Infinity;
+
+    for (const rule of this.rules) {
+      let miss = 0;
+      for (const key of RANGE_KEYS) {
+        miss += rangeMiss(rule[key], sample[key]);
+      }
+
+      if (miss === 0) return rule;
+
+      if (miss < closestMiss) {
+        closestMiss = miss;
+        closest = rule;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Blend weights for a point. Rules are tried in order as in classify, but
+   * each rule's membership fades over the transition width around its
+   * temperature and moisture borders, and later rules take what is left.
+   * @param sample - Values at the point
+   * @param transitionWidth - Width of the borders in temperature/moisture units
+   * @param maxCount - Number of strongest biomes kept
+   * @returns Weights summing to 1, strongest first
+   */
+  weigh(sample: BiomeSample, transitionWidth: number, maxCount: number): BiomeWeight[] {
+    if (transitionWidth <= 0) {
+      return [{ rule: this.classify(sample), weight: 1 }];
+    }
+
+    const weights: BiomeWeight[] = [];
+    let remaining = 1;
+
+    for (const rule of this.rules) {
+      const membership = this.membership(rule, sample, transitionWidth);
+      if (membership <= 0) continue;
+
+      weights.push({ rule, weight: remaining * membership });
+      remaining *= 1 - membership;
+      if (remaining <= 0) break;
+    }
+
+    // Nothing matched at all: fall back to the closest rule
+    if (weights.length === 0) {
+      return [{ rule: this.classify(sample), weight: 1 }];
+    }
+
+    weights.sort((a, b) => b.weight - a.weight);
+    weights.length = Math.min(weights.length, Math.max(1, maxCount));
+
+    const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+    for (const entry of weights) {
+      entry.weight /= total;
+    }
+
+    return weights;
+  }
+
+  /**
+   * Soft membership of a point in a rule: 1 well inside, 0 well outside,
+   * easing across the border
+   */
+  private membership(rule: BiomeRule, sample: BiomeSample, transitionWidth: number): number {
+    for (const key of HARD_KEYS) {
+      if (rangeMiss(rule[key], sample[key]) > 0) return 0;
+    }
+
+    // Signed distance to the nearest border, in transition widths
+    let distance = -Infinity;
+    for (const key of BLEND_KEYS) {
+      distance = Math.max(distance, signedDistance(rule[key], sample[key]) / transitionWidth);
+    }
+
+    return 1 - THREE.MathUtils.smoothstep(distance, -0.5, 0.5);
+  }
+
+  /**
+   * Get the rule with an id
+   */
+  get(id: string): BiomeRule | undefined {
+    return this.rules.find(rule => rule.id === id);
+  }
+
+  /**
+   * Colour of a rule at a point
+   */
+  getColor(rule: BiomeRule, sample: BiomeSample): THREE.Color {
+    const index = this.rules.indexOf(rule);
+    return this.gradients[index].get(sample[rule.color.by]);
+  }
+
+  /**
+   * Blended colour of several rules at a point
+   */
+  getBlendedColor(weights: BiomeWeight[], sample: BiomeSample): THREE.Color {
+    const color = new THREE.Color(0, 0, 0);
+    for (const { rule, weight } of weights) {
+      const ruleColor = this.getColor(rule, sample);
+      color.r += ruleColor.r * weight;
+      color.g += ruleColor.g * weight;
+      color.b += ruleColor.b * weight;
+    }
+    return color;
+  }
+
+  /**
+   * Blended height modifier of several rules, so terrain shapes fade out
+   * across biome borders
+   * @param weights - Biome weights
+   * @param elevation - Height above the water level
+   * @param position - Normalized position vector on unit sphere
+   * @returns Modified height above the water level
+   */
+  applyBlendedHeight(weights: BiomeWeight[], elevation: number, position: THREE.Vector3): number {
+    let height = 0;
+    for (const { rule, weight } of weights) {
+      height += this.applyHeight(rule, elevation, position) * weight;
+    }
+    return height;
+  }
+
+  /**
+   * Chance of each vegetation item appearing at a blended point: an item
+   * is as likely as the weight of the biomes that grow it
+   */
+  getVegetation(weights: BiomeWeight[]): { item: VegetationItem; probability: number }[] {
+    const result: { item: VegetationItem; probability: number }[] = [];
+    for (const { rule, weight } of weights) {
+      for (const item of rule.vegetation ?? []) {
+        result.push({ item, probability: weight });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Apply a rule's height modifier
+   * @param rule - Biome rule
+   * @param elevation - Height above the water level
+   * @param position - Normalized position vector on unit sphere
+   * @returns Modified height above the water level
+   */
+  applyHeight(rule: BiomeRule, elevation: number, position: THREE.Vector3): number {
+    if (!rule.height) return elevation;
+
+    const height = elevation * (rule.height.scale ?? 1) + (rule.height.offset ?? 0);
+    return rule.height.shape ? this.shaper.apply(rule.height.shape, position, height) : height;
+  }
+}
+
+/**
+ * Distance by which a value falls outside a range
+ */
+function rangeMiss(range: BiomeRange | undefined, value: number): number {
+  if (!range) return 0;
+  if (range.min !== undefined && value < range.min) return range.min - value;
+  if (range.max !== undefined && value > range.max) return value - range.max;
+  return 0;
+}
+
+/**
+ * Distance from a value to the nearest border of a range, negative inside
+ */
+function signedDistance(range: BiomeRange | undefined, value: number): number {
+  if (!range) return -Infinity;
+
+  let distance = -Infinity;
+  if (range.min !== undefined) distance = Math.max(distance, range.min - value);
+  if (range.max !== undefined) distance = Math.max(distance, value - range.max);
+  return distance;
+}
+
+
+/**
+ * Whether THREE.Color can parse a CSS style colour string
+ */
+function isColorString(color: string): boolean {
+  return /^(#|rgb|hsl)/i.test(color) || color.toLowerCase() in THREE.Color.NAMES;
+}
+
+/**
+ * Check that a biome table is well-formed
+ * @param rules - Biome rules
+ * @param palette - Named colours stops may refer to
+ * @throws Error describing the first invalid rule
+ */
+export function validateBiomeTable(rules: BiomeRule[], palette: BiomePalette = {}): void {
+  if (!Array.isArray(rules) || rules.length === 0) {
+    throw new Error('Biome table needs at least one rule');
+  }
+
+  rules.forEach((rule, i) => {
+    const path = `biomes[${i}]`;
+
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`Biome rule at ${path} must be an object`);
+    }
+    if (typeof rule.id !== 'string' || rule.id === '') {
+      throw new Error(`Biome rule at ${path} needs an "id"`);
+    }
+
+    for (const key of RANGE_KEYS) {
+      const range = rule[key];
+      if (range === undefined) continue;
+
+      const { min, max } = range;
+      if ((min !== undefined && !Number.isFinite(min)) || (max !== undefined && !Number.isFinite(max))) {
+        throw new Error(`Biome rule "${rule.id}" has a non-numeric ${key} range`);
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new Error(`Biome rule "${rule.id}" has an empty ${key} range`);
+      }
+    }
+
+    if (!rule.color || !RANGE_KEYS.includes(rule.color.by)) {
+      throw new Error(`Biome rule "${rule.id}" needs a color.by of ${RANGE_KEYS.join(', ')}`);
+    }
+    if (!Array.isArray(rule.color.gradient) || rule.color.gradient.length === 0) {
+      throw new Error(`Biome rule "${rule.id}" needs at least one colour stop`);
+    }
+    for (const stop of rule.color.gradient) {
+      const color = Array.isArray(stop) ? stop[1] : stop.color;
+      if (typeof color === 'string' && !palette[color] && !isColorString(color)) {
+        throw new Error(`Biome rule "${rule.id}" uses unknown colour "${color}"`);
+      }
+    }
+
+    if (rule.height) {
+      const { scale, offset } = rule.height;
+      if ((scale !== undefined && !Number.isFinite(scale)) || (offset !== undefined && !Number.isFinite(offset))) {
+        throw new Error(`Biome rule "${rule.id}" has a non-numeric height modifier`);
+      }
+      if (rule.height.shape !== undefined) {
+        validateTerrainShape(rule.height.shape, `${path}.height.shape`);
+      }
+    }
+
+    if (rule.vegetation !== undefined) {
+      if (!Array.isArray(rule.vegetation) || rule.vegetation.some(item => typeof item?.name !== 'string')) {
+        throw new Error(`Biome rule "${rule.id}" needs vegetation items with a "name"`);
+      }
+    }
+  });
+}
@@ -1,5 +1,7 @@
-import { Color, Vector3 } from "three";
-import UberNoise from "../utils/uber-noise";
+import { Color, MathUtils, Vector3 } from "three";
+import { NoiseGraph, type NoiseGraphNode } from "./helper/noise-graph";
+import { Octree } from "./helper/octree";
+import { randomSeed } from "../utils/random";
 
 // Biome options interface definition
 export interface BiomeOptions {
@@ -18,47 +20,72 @@ export interface BiomeOptions {
     warp?: number;
     scale?: number;
     power?: number;
+    seed?: number;
   };
 
+  // Height pipeline as a noise graph; replaces the fbm built from `noise`.
+  // `noise.min`/`noise.max` still describe its output range for colouring.
+  height?: NoiseGraphNode;
+
   tintColor?: number;
 
   colors?: [number, number][];
+
+  // Rock colours for steep faces, by normalized height like `colors`.
+  // Steepness is 1 - cos(angle between surface normal and up): cliffs
+  // start at `cliffSlope.min` and are fully rock at `cliffSlope.max`.
+  cliffColors?: [number, number][];
+  cliffSlope?: {
+    min: number;
+    max: number;
+  };
   
   seaColors?: [number, number][];
   seaNoise?: {
     min: number;
     max: number;
     scale: number;
+    seed?: number;
   };
 
   vegetation?: {
-    items: {
-      name: string;
-      density?: number;
-      minimumHeight?: number;
-      maximumHeight?: number;
-      minimumSlope?: number;
-      maximumSlope?: number;
-      minimumDistance?: number;
-      maximumDistance?: number;
-      colors?: Record<string, { array: number[] }>;
-      ground?: {
-        color: number;
-        radius: number;
-        raise: number;
-      };
-    }[];
+    items: VegetationItem[];
   };
 }
 
+// A kind of vegetation scattered over a biome
+export interface VegetationItem {
+  // Model reference: "PineTree", or "MyCollection/Lantern" for a model
+  // of a registered collection
+  name: string;
+  density?: number;
+  minimumHeight?: number;
+  maximumHeight?: number;
+  minimumSlope?: number;
+  maximumSlope?: number;
+  minimumDistance?: number;
+  maximumDistance?: number;
+  colors?: Record<string, { array: number[] }>;
+  ground?: {
+    color: number;
+    radius: number;
+    raise: number;
+  };
+}
+
+// Octree size covering a planet of radius 1 and its terrain
+const VEGETATION_OCTREE_SIZE = 2.5;
+
 export class Biome {
   options: BiomeOptions;
   min: number;
   max: number;
-  noise: UberNoise;
-  seaNoise: UberNoise;
+  noise: NoiseGraph;
+  seaNoise: NoiseGraph;
   groundVegetation: Map<string, {
     positions: Vector3[];
+    // Same positions, indexed for finding those near a face
+    octree: Octree<Vector3>;
     colors: Record<string, { array: number[] }>;
     ground?: {
       color: number;
@@ -67,27 +94,45 @@ export class Biome {
     };
   }> = new Map();
 
+  /**
+   * Return a copy of the biome options with both noise seeds set, so a
+   * preset can be reproduced exactly
+   * @param options - Biome options (usually a preset)
+   * @param seed - Seed for terrain noise; sea noise uses seed + 1
+   */
+  static withSeed(options: BiomeOptions, seed: number): BiomeOptions {
+    return {
+      ...options,
+      noise: options.noise ? { ...options.noise, seed } : { min: -0.05, max: 0.05, seed },
+      seaNoise: options.seaNoise
+        ? { ...options.seaNoise, seed: seed + 1 }
+        : { min: -0.005, max: 0.005, scale: 5, seed: seed + 1 },
+    };
+  }
+
   constructor(options: BiomeOptions = {}) {
     this.options = options;
     this.min = options.noise?.min ?? -0.05;
     this.max = options.noise?.max ?? 0.05;
 
-    this.noise = new UberNoise({
-      min: this.min,
-      max: this.max,
-      octaves: options.noise?.octaves ?? 4,
-      lacunarity: options.noise?.lacunarity ?? 2.0,
-      gain: options.noise?.gain,
-      warp: options.noise?.warp ?? 0.3,
-      scale: options.noise?.scale ?? 1,
-      power: options.noise?.power ?? 1.5,
-    });
-
-    this.seaNoise = new UberNoise({
-      min: options.seaNoise?.min ?? -0.005,
-      max: options.seaNoise?.max ?? 0.005,
-      scale: options.seaNoise?.scale ?? 5,
-    });
+    const terrainSeed = options.noise?.seed ?? randomSeed();
+    this.noise = new NoiseGraph(
+      options.height ?? heightGraphFromNoiseOptions(this.min, this.max, options.noise),
+      terrainSeed
+    );
+
+    // Without an explicit sea seed, derive one from the terrain seed so a
+    // single seed is enough to reproduce the whole biome
+    this.seaNoise = new NoiseGraph(
+      {
+        type: "fbm",
+        octaves: 1,
+        scale: options.seaNoise?.scale ?? 5,
+        min: options.seaNoise?.min ?? -0.005,
+        max: options.seaNoise?.max ?? 0.005,
+      },
+      options.seaNoise?.seed ?? terrainSeed + 1
+    );
   }
 
   getHeight(position: Vector3): number {
@@ -107,34 +152,18 @@ export class Biome {
 
     // Calculate color at this position
     // Based on normalized height, find the right color in the gradient
-    let r = 1, g = 1, b = 1;
-    
-    // Sort colors by height
-    let sorted = [...this.options.colors].sort((colorEntryA, colorEntryB) => colorEntryA[0] - colorEntryB[0]);
+    let { r, g, b } = sampleGradient(this.options.colors, normalizedHeight) ?? { r: 1, g: 1, b: 1 };
     
-    for (let i = 0; i < sorted.length - 1; i++) {
-      const [h1, c1] = sorted[i];
-      const [h2, c2] = sorted[i + 1];
+    // Blend towards rock on steep faces
+    const { cliffColors, cliffSlope } = this.options;
+    if (cliffColors && cliffColors.length > 0 && cliffSlope) {
+      const cliff = sampleGradient(cliffColors, normalizedHeight);
+      const amount = MathUtils.smoothstep(steepness, cliffSlope.min, cliffSlope.max);
       
-      if (normalizedHeight >= h1 && normalizedHeight <= h2) {
-        // Calculate blend ratio
-        const ratio = (normalizedHeight - h1) / (h2 - h1);
-        
-        // Convert hex colors to r, g, b
-        const r1 = ((c1 >> 16) & 255) / 255;
-        const g1 = ((c1 >> 8) & 255) / 255;
-        const b1 = (c1 & 255) / 255;
-        
-        const r2 = ((c2 >> 16) & 255) / 255;
-        const g2 = ((c2 >> 8) & 255) / 255;
-        const b2 = (c2 & 255) / 255;
-        
-        // Linear interpolation
-        r = r1 * (1 - ratio) + r2 * ratio;
-        g = g1 * (1 - ratio) + g2 * ratio;
-        b = b1 * (1 - ratio) + b2 * ratio;
-        
-        break;
+      if (cliff && amount > 0) {
+        r = r * (1 - amount) + cliff.r * amount;
+        g = g * (1 - amount) + cliff.g * amount;
+        b = b * (1 - amount) + cliff.b * amount;
       }
     }
     
@@ -159,44 +188,32 @@ export class Biome {
     }
 
     // Calculate sea color at this position
-    let r = 0, g = 0, b = 1;
-    
-    // Sort sea colors by height
-    let sorted = [...this.options.seaColors].sort((colorEntryA, colorEntryB) => colorEntryA[0] - colorEntryB[0]);
-    
-    for (let i = 0; i < sorted.length - 1; i++) {
-      const [h1, c1] = sorted[i];
-      const [h2, c2] = sorted[i + 1];
-      
-      if (normalizedHeight >= h1 && normalizedHeight <= h2) {
-        // Calculate blend ratio
-        const ratio = (normalizedHeight - h1) / (h2 - h1);
-        
-        // Convert hex colors to r, g, b
-        const r1 = ((c1 >> 16) & 255) / 255;
-        const g1 = ((c1 >> 8) & 255) / 255;
-        const b1 = (c1 & 255) / 255;
-        
-        const r2 = ((c2 >> 16) & 255) / 255;
-        const g2 = ((c2 >> 8) & 255) / 255;
-        const b2 = (c2 & 255) / 255;
-        
-        // Linear interpolation
-        r = r1 * (1 - ratio) + r2 * ratio;
-        g = g1 * (1 - ratio) + g2 * ratio;
-        b = b1 * (1 - ratio) + b2 * ratio;
-        
-        break;
-      }
-    }
+    const { r, g, b } = sampleGradient(this.options.seaColors, normalizedHeight) ?? { r: 0, g: 0, b: 1 };
     
     return new Color(r, g, b);
   }
 
-  addVegetation(item: any, position: Vector3, normalizedHeight: number, steepness: number) {
+  /**
+   * Whether a vegetation item may grow at a point, honouring its height
+   * and slope limits
+   */
+  canGrow(item: VegetationItem, normalizedHeight: number, steepness: number): boolean {
+    return canVegetationGrow(item, normalizedHeight, steepness);
+  }
+
+  /**
+   * Record a vegetation item at a position so its ground can be shaped
+   * @returns Whether the item may grow there and was added
+   */
+  addVegetation(item: VegetationItem, position: Vector3, normalizedHeight: number, steepness: number): boolean {
+    if (!this.canGrow(item, normalizedHeight, steepness)) {
+      return false;
+    }
+    
     if (!this.groundVegetation.has(item.name)) {
       this.groundVegetation.set(item.name, {
         positions: [],
+        octree: new Octree(new Vector3(0, 0, 0), VEGETATION_OCTREE_SIZE),
         colors: item.colors || {},
         ground: item.ground,
       });
@@ -204,15 +221,19 @@ export class Biome {
     
     const vegetation = this.groundVegetation.get(item.name);
     if (vegetation) {
-      vegetation.positions.push(position.clone());
+      const copy = position.clone();
+      vegetation.positions.push(copy);
+      vegetation.octree.insert(copy);
     }
+    
+    return true;
   }
 
   closestVegetationDistance(position: Vector3, maxDistance: number): number | null {
     let closestDistance: number | null = null;
     
     for (const [, vegetation] of this.groundVegetation) {
-      for (const pos of vegetation.positions) {
+      for (const pos of vegetation.octree.querySphere(position, maxDistance)) {
         const distance = position.distanceTo(pos);
         if (distance < maxDistance) {
           if (closestDistance === null || distance < closestDistance) {
@@ -240,14 +261,13 @@ export class Biome {
       color: { ...faceColor },
     };
     
-    // Go through all vegetation
+    // Go through the vegetation within one and a half sides of the middle
+    // of this face
     for (const [, vegetation] of this.groundVegetation) {
       if (!vegetation.ground) continue;
       
-      for (const position of vegetation.positions) {
-        // Check if this vegetation ground affects this face
+      for (const position of vegetation.octree.querySphere(mid, faceSideLength * 1.5)) {
         const distanceToMid = position.distanceTo(mid);
-        if (distanceToMid > faceSideLength * 1.5) continue;
         
         // Calculate how much this vegetation affects each vertex
         const radius = vegetation.ground.radius;
@@ -270,15 +290,15 @@ export class Biome {
         
         // Calculate color influence
         const groundColor = vegetation.ground.color;
-        const r = ((groundColor >> 16) & 255) / 255;
-        const g = ((groundColor >> 8) & 255) / 255;
-        const b = (groundColor & 255) / 255;
+        const red = ((groundColor >> 16) & 255) / 255;
+        const green = ((groundColor >> 8) & 255) / 255;
+        const blue = (groundColor & 255) / 255;
         
         if (distanceToMid < radius) {
           const colorInfluence = (1 - distanceToMid / radius) * 0.8;
-          result.color.r = result.color.r * (1 - colorInfluence) + r * colorInfluence;
-          result.color.g = result.color.g * (1 - colorInfluence) + g * colorInfluence;
-          result.color.b = result.color.b * (1 - colorInfluence) + b * colorInfluence;
+          result.color.r = result.color.r * (1 - colorInfluence) + red * colorInfluence;
+          result.color.g = result.color.g * (1 - colorInfluence) + green * colorInfluence;
+          result.color.b = result.color.b * (1 - colorInfluence) + blue * colorInfluence;
         }
       }
     }
@@ -287,6 +307,51 @@ export class Biome {
   }
 }
 
+/**
+ * Whether a vegetation item's height and slope limits allow it at a point.
+ * Heights and slopes are in whatever units the caller's items use.
+ */
+export function canVegetationGrow(item: VegetationItem, height: number, slope: number): boolean {
+  if (item.minimumHeight !== undefined && height < item.minimumHeight) return false;
+  if (item.maximumHeight !== undefined && height > item.maximumHeight) return false;
+  if (item.minimumSlope !== undefined && slope < item.minimumSlope) return false;
+  if (item.maximumSlope !== undefined && slope > item.maximumSlope) return false;
+  return true;
+}
+
+/**
+ * Build the classic biome height pipeline (domain warp, fbm with variable
+ * gain, power curve, rescale) as a noise graph
+ */
+export function heightGraphFromNoiseOptions(
+  min: number,
+  max: number,
+  noise: BiomeOptions["noise"] = { min, max }
+): NoiseGraphNode {
+  const scale = noise.scale ?? 1;
+  const warp = noise.warp ?? 0.3;
+  const power = noise.power ?? 1.5;
+
+  let node: NoiseGraphNode = {
+    type: "fbm",
+    scale,
+    octaves: noise.octaves ?? 4,
+    lacunarity: noise.lacunarity ?? 2.0,
+    gain: noise.gain ?? 0.5,
+  };
+
+  if (warp > 0) {
+    // Warp offsets were applied in scaled space, so convert them back
+    node = { type: "warp", input: node, amount: warp / scale, scale };
+  }
+
+  if (power !== 1) {
+    node = { type: "power", input: node, exponent: power };
+  }
+
+  return { type: "curve", input: node, points: [[-1, min], [1, max]] };
+}
+
 // Helper function for soft light blend mode
 function softLightBlend(a: number, b: number): number {
   if (b < 0.5) {
@@ -301,4 +366,48 @@ function vegetationGroundHeight(distance: number, radius: number, maxHeight: num
   // Cosine curve for smooth falloff
   const ratio = distance / radius;
   return maxHeight * (Math.cos(ratio * Math.PI) + 1) / 2;
-} 
\ No newline at end of file
+}
+
+// Helper function to sample a [height, hex colour] gradient, holding the end
+// colours outside its range; null when it has no colours
+function sampleGradient(colors: [number, number][], height: number): { r: number, g: number, b: number } | null {
+  if (colors.length === 0) return null;
+  
+  // Sort colors by height
+  const sorted = [...colors].sort((colorEntryA, colorEntryB) => colorEntryA[0] - colorEntryB[0]);
+  height = MathUtils.clamp(height, sorted[0][0], sorted[sorted.length - 1][0]);
+  
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const [h1, c1] = sorted[i];
+    const [h2, c2] = sorted[i + 1];
+    
+    if (height >= h1 && height <= h2) {
+      // Calculate blend ratio
+      const ratio = (height - h1) / (h2 - h1);
+      
+      // Convert hex colors to r, g, b
+      const r1 = ((c1 >> 16) & 255) / 255;
+      const g1 = ((c1 >> 8) & 255) / 255;
+      const b1 = (c1 & 255) / 255;
+      
+      const r2 = ((c2 >> 16) & 255) / 255;
+      const g2 = ((c2 >> 8) & 255) / 255;
+      const b2 = (c2 & 255) / 255;
+      
+      // Linear interpolation
+      return {
+        r: r1 * (1 - ratio) + r2 * ratio,
+        g: g1 * (1 - ratio) + g2 * ratio,
+        b: b1 * (1 - ratio) + b2 * ratio,
+      };
+    }
+  }
+  
+  // A single colour covers every height
+  const color = sorted[0][1];
+  return {
+    r: ((color >> 16) & 255) / 255,
+    g: ((color >> 8) & 255) / 255,
+    b: (color & 255) / 255,
+  };
+}
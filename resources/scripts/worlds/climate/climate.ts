@@ -0,0 +1,55 @@
+/**
+ * Ice cap configuration
+ */
+export interface IceCapOptions {
+  // Temperature (0-1) below which both land and sea freeze over
+  temperature: number;
+}
+
+/**
+ * Default ice cap options
+ */
+export const DEFAULT_ICE_CAP_OPTIONS: IceCapOptions = {
+  temperature: 0.15
+};
+
+// Annual mean insolation of an untilted planet at the equator and the poles
+const EQUATOR_INSOLATION = annualInsolation(0, 0);
+const POLE_INSOLATION = annualInsolation(1, 0);
+
+/**
+ * Annual mean insolation at a latitude, relative to the planet average.
+ * Uses the second order Legendre approximation (North & Coakley), which is
+ * accurate to a few percent for any axial tilt.
+ * @param sinLatitude - Sine of the latitude (the y component of a unit position)
+ * @param axialTilt - Axial tilt in degrees
+ */
+export function annualInsolation(sinLatitude: number, axialTilt: number): number {
+  const cosTilt = Math.cos(axialTilt * Math.PI / 180);
+  return 1 - (5 / 8) * legendre2(cosTilt) * legendre2(sinLatitude);
+}
+
+/**
+ * Temperature (0-1) from insolation at a latitude. Equator and pole
+ * temperatures are those of an untilted planet; tilt shifts heat towards
+ * the poles, and past roughly 55 degrees the poles become the warmest place.
+ * @param sinLatitude - Sine of the latitude (the y component of a unit position)
+ * @param axialTilt - Axial tilt in degrees
+ * @param equatorTemperature - Temperature at the equator without tilt
+ * @param poleTemperature - Temperature at the poles without tilt
+ */
+export function latitudeTemperature(
+  sinLatitude: number,
+  axialTilt: number,
+  equatorTemperature: number,
+  poleTemperature: number
+): number {
+  const t = (annualInsolation(sinLatitude, axialTilt) - POLE_INSOLATION) /
+    (EQUATOR_INSOLATION - POLE_INSOLATION);
+
+  return poleTemperature + (equatorTemperature - poleTemperature) * t;
+}
+
+function legendre2(x: number): number {
+  return (3 * x * x - 1) / 2;
+}
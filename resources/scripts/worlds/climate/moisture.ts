@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import type { SphereGraph } from '../helper/sphere-graph';
+
+/**
+ * Rain shadow configuration
+ */
+export interface RainShadowOptions {
+  // Share of the carried moisture rained out per radian over flat land
+  rainRate: number;
+  // Extra rain forced out per unit of elevation climbed
+  orographic: number;
+  // How much of the biome moisture noise is mixed back in (0-1)
+  variation: number;
+  // Alternating sweeps used to carry moisture downwind
+  iterations: number;
+}
+
+/**
+ * Default rain shadow options
+ */
+export const DEFAULT_RAIN_SHADOW_OPTIONS: RainShadowOptions = {
+  rainRate: 1.2,
+  orographic: 6,
+  variation: 0.3,
+  iterations: 8
+};
+
+// Cross-band flow relative to the zonal flow: trade winds and polar
+// easterlies blow towards the equator, westerlies towards the poles
+const MERIDIONAL_WIND = 0.35;
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Prevailing surface wind at a point: easterly trade winds up to 30 degrees,
+ * westerlies to 60 degrees and polar easterlies beyond. The planet spins
+ * towards +east, where east is up × position.
+ * @param position - Normalized position vector on unit sphere
+ * @param target - Vector to write the unit tangent wind direction to
+ * @returns The target vector, zero at the poles
+ */
+export function prevailingWind(position: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+  const east = new THREE.Vector3().crossVectors(UP, position);
+  if (east.lengthSq() < 1e-12) return target.set(0, 0, 0);
+  east.normalize();
+
+  const north = new THREE.Vector3().crossVectors(position, east);
+  const latitude = Math.abs(Math.asin(THREE.MathUtils.clamp(position.y, -1, 1))) * 180 / Math.PI;
+  const poleward = Math.sign(position.y);
+
+  // Westerlies blow east and poleward; the other bands west and equatorward
+  const zonal = latitude >= 30 && latitude < 60 ? 1 : -1;
+  return target
+    .copy(east).multiplyScalar(zonal)
+    .addScaledVector(north, zonal * poleward * MERIDIONAL_WIND)
+    .normalize();
+}
+
+/**
+ * Rainfall factor of a latitude band: rising air at the equator and along
+ * the polar fronts, sinking dry air in the subtropics and over the poles
+ * @param sinLatitude - Sine of the latitude
+ */
+export function latitudeRainfall(sinLatitude: number): number {
+  const latitude = Math.asin(THREE.MathUtils.clamp(sinLatitude, -1, 1));
+  return 0.7 + 0.3 * Math.cos(latitude * 6);
+}
+
+/**
+ * Carry moisture from the sea over land with the prevailing winds. Air
+ * rains out steadily as it travels and heavily as it is pushed up slopes,
+ * so the far side of a mountain range is left dry.
+ * @param graph - Vertex adjacency graph
+ * @param elevations - Elevation per unique vertex
+ * @param waterLevel - Vertices at or below this level are open sea
+ * @param options - Rain shadow configuration
+ * @returns Moisture (0-1) per unique vertex, 1 over the sea
+ */
+export function computeMoisture(
+  graph: SphereGraph,
+  elevations: Float32Array,
+  waterLevel: number,
+  options: Partial<RainShadowOptions> = {}
+): Float32Array {
+  const settings = { ...DEFAULT_RAIN_SHADOW_OPTIONS, ...options };
+  const { positions, neighbors, edgeLengths } = graph;
+  const vertexCount = positions.length;
+
+  const winds = positions.map(position => prevailingWind(position, new THREE.Vector3()));
+  const rainfall = Float32Array.from(positions, position => latitudeRainfall(position.y));
+
+  // Sweep around the planet in both directions so zonal winds carry
+  // moisture a long way in a single pass
+  const longitudes = Float32Array.from(positions, position => Math.atan2(position.x, position.z));
+  const order = Array.from({ length: vertexCount }, (_, v) => v)
+    .sort((a, b) => longitudes[a] - longitudes[b]);
+
+  // Moisture leaving each vertex downwind, and the rain that fell there
+  const carried = new Float32Array(vertexCount);
+  const rain = new Float32Array(vertexCount);
+  const direction = new THREE.Vector3();
+
+  for (let iteration = 0; iteration < settings.iterations; iteration++) {
+    for (let step = 0; step < vertexCount; step++) {
+      const v = order[iteration % 2 === 0 ? step : vertexCount - 1 - step];
+
+      // Air over the sea is saturated
+      if (elevations[v] <= waterLevel) {
+        carried[v] = 1;
+        continue;
+      }
+
+      // Air arriving from upwind neighbours, weighted by how directly the
+      // wind blows from them
+      let inflow = 0;
+      let weight = 0;
+      let climb = 0;
+      let distance = 0;
+
+      for (let i = 0; i < neighbors[v].length; i++) {
+        const u = neighbors[v][i];
+        const alignment = winds[u].dot(direction.subVectors(positions[v], positions[u])) / edgeLengths[v][i];
+        if (alignment <= 0) continue;
+
+        inflow += carried[u] * alignment;
+        climb += (elevations[v] - Math.max(elevations[u], waterLevel)) * alignment;
+        distance += edgeLengths[v][i] * alignment;
+        weight += alignment;
+      }
+
+      if (weight === 0) {
+        carried[v] = 0;
+        rain[v] = 0;
+        continue;
+      }
+
+      inflow /= weight;
+      climb /= weight;
+      distance /= weight;
+
+      // Rain out a share of the moisture, more when the air is lifted
+      const share = (1 - Math.exp(-(settings.rainRate * distance + settings.orographic * Math.max(0, climb)))) *
+        rainfall[v];
+      rain[v] = inflow * share / distance;
+      carried[v] = inflow - inflow * share;
+    }
+  }
+
+  // Rain per radian, scaled so a flat windward coast is wet
+  return Float32Array.from(rain, (amount, v) =>
+    elevations[v] <= waterLevel ? 1 : 1 - Math.exp(-2 * amount / settings.rainRate)
+  );
+}
@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+
+/**
+ * Seasonal cycle configuration. The year runs from 0 to 1, starting at the
+ * northern spring equinox: 0.25 is northern midsummer, 0.75 midwinter.
+ */
+export interface SeasonOptions {
+  // Length of a year in seconds
+  yearLength: number;
+  // Point in the year the planet starts at
+  start: number;
+  // Temperature swing at the poles of a planet tilted on its side
+  amplitude: number;
+  // Share of the swing felt over the sea, which stores heat
+  oceanDamping: number;
+  // Temperature below which land lies under snow
+  snowTemperature: number;
+  // Deciduous plants turn while cooling below this temperature...
+  autumnTemperature: number;
+  // ...and are bare below this one
+  bareTemperature: number;
+  // Biome ids whose plants change colour over the year
+  deciduous: string[];
+  autumnColor: THREE.Color;
+  bareColor: THREE.Color;
+}
+
+/**
+ * Default season options
+ */
+export const DEFAULT_SEASON_OPTIONS: SeasonOptions = {
+  yearLength: 60,
+  start: 0,
+  amplitude: 0.6,
+  oceanDamping: 0.4,
+  snowTemperature: 0.2,
+  autumnTemperature: 0.5,
+  bareTemperature: 0.3,
+  deciduous: ['forest', 'grassland', 'swamp'],
+  autumnColor: new THREE.Color(0xc0702a),
+  bareColor: new THREE.Color(0x77684f)
+};
+
+/**
+ * Temperature change from the annual mean at a latitude and time of year.
+ * Follows the seasonal term of daily insolation, which grows with the sine
+ * of the tilt and of the latitude and is opposite in each hemisphere.
+ * @param sinLatitude - Sine of the latitude (the y component of a unit position)
+ * @param axialTilt - Axial tilt in degrees
+ * @param season - Time of year (0-1)
+ * @param amplitude - Swing at the poles of a planet tilted on its side
+ */
+export function seasonalTemperature(
+  sinLatitude: number,
+  axialTilt: number,
+  season: number,
+  amplitude: number
+): number {
+  return amplitude * Math.sin(axialTilt * Math.PI / 180) * sinLatitude *
+    Math.sin(season * Math.PI * 2);
+}
+
+/**
+ * How strongly a latitude is cooling at a time of year, from -1 (warming
+ * fastest, in spring) to 1 (cooling fastest, in autumn)
+ * @param sinLatitude - Sine of the latitude
+ * @param season - Time of year (0-1)
+ */
+export function seasonalCooling(sinLatitude: number, season: number): number {
+  return -Math.sign(sinLatitude) * Math.cos(season * Math.PI * 2);
+}
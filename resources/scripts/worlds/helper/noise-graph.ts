@@ -0,0 +1,402 @@
+import { MathUtils, Vector3 } from "three";
+import { getGradientNoise } from "./gradient-noise";
+
+/**
+ * Shared options for the noise source nodes (fbm, ridged, billow).
+ * Sources produce values in [-1, 1], remapped to [min, max] when given.
+ */
+export interface NoiseSourceOptions {
+  scale?: number;
+  octaves?: number;
+  lacunarity?: number;
+  gain?: number | { min: number; max: number; scale: number };
+  // Offset from the graph seed; defaults to one derived from the node position
+  seed?: number;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * A node in a noise graph. Graphs are plain data, so they can be stored in
+ * presets, serialized with JSON.stringify and rebuilt with NoiseGraph.fromJSON.
+ */
+export type NoiseGraphNode =
+  | { type: "constant"; value: number }
+  | ({ type: "fbm" } & NoiseSourceOptions)
+  | ({ type: "ridged" } & NoiseSourceOptions)
+  | ({ type: "billow" } & NoiseSourceOptions)
+  | { type: "warp"; input: NoiseGraphNode; amount: number; scale?: number; seed?: number }
+  | { type: "terrace"; input: NoiseGraphNode; steps: number; smoothness?: number }
+  | { type: "curve"; input: NoiseGraphNode; points: [number, number][] }
+  | { type: "power"; input: NoiseGraphNode; exponent: number }
+  | { type: "add" | "multiply" | "min" | "max"; inputs: NoiseGraphNode[] }
+  | { type: "mask"; mask: NoiseGraphNode; input: NoiseGraphNode; fallback?: NoiseGraphNode; threshold?: number; falloff?: number };
+
+type Sampler = (x: number, y: number, z: number) => number;
+
+// Seed stride between nodes that don't declare their own seed
+const NODE_SEED_STRIDE = 1013;
+
+/**
+ * Evaluates a noise graph definition at points in 3D space
+ */
+export class NoiseGraph {
+  readonly definition: NoiseGraphNode;
+  readonly seed: number;
+  private sampler: Sampler;
+  private nodeCount = 0;
+
+  /**
+   * @param definition - Graph definition
+   * @param seed - Base seed; each node derives its own seed from this
+   */
+  constructor(definition: NoiseGraphNode, seed: number) {
+    validateNoiseGraph(definition);
+
+    this.definition = definition;
+    this.seed = seed;
+    this.sampler = this.compile(definition);
+  }
+
+  /**
+   * Rebuild a graph from its JSON representation
+   * @param json - JSON string or already parsed definition
+   * @param seed - Base seed
+   */
+  static fromJSON(json: string | NoiseGraphNode, seed: number): NoiseGraph {
+    const definition = typeof json === "string" ? JSON.parse(json) : json;
+    return new NoiseGraph(definition, seed);
+  }
+
+  /**
+   * Get the graph value at a position
+   */
+  get(position: Vector3): number {
+    return this.sampler(position.x, position.y, position.z);
+  }
+
+  /**
+   * Get the graph value at a coordinate
+   */
+  getXYZ(x: number, y: number, z: number): number {
+    return this.sampler(x, y, z);
+  }
+
+  toJSON(): NoiseGraphNode {
+    return this.definition;
+  }
+
+  /**
+   * Turn a node definition into a sampling closure
+   */
+  private compile(node: NoiseGraphNode): Sampler {
+    // Nodes are numbered depth-first, so seeds only depend on the definition
+    const seed = this.seed + ("seed" in node && node.seed !== undefined
+      ? node.seed
+      : this.nodeCount * NODE_SEED_STRIDE);
+    this.nodeCount++;
+
+    switch (node.type) {
+      case "constant": {
+        const value = node.value;
+        return () => value;
+      }
+
+      case "fbm":
+      case "ridged":
+      case "billow":
+        return compileSource(node.type, node, seed);
+
+      case "warp": {
+        const input = this.compile(node.input);
+        const amount = node.amount;
+        const scale = node.scale ?? 1;
+        const noiseX = getGradientNoise(seed);
+        const noiseY = getGradientNoise(seed + 1);
+        const noiseZ = getGradientNoise(seed + 2);
+
+        return (x, y, z) => {
+          const sx = x * scale;
+          const sy = y * scale;
+          const sz = z * scale;
+
+          return input(
+            x + noiseX.noise3D(sx, sy, sz) * amount,
+            y + noiseY.noise3D(sx, sy, sz) * amount,
+            z + noiseZ.noise3D(sx, sy, sz) * amount
+          );
+        };
+      }
+
+      case "terrace": {
+        const input = this.compile(node.input);
+        const steps = node.steps;
+        const smoothness = MathUtils.clamp(node.smoothness ?? 0.2, 0.0001, 1);
+
+        return (x, y, z) => {
+          const value = input(x, y, z) * steps;
+          const step = Math.floor(value);
+          // Flat shelves with a smooth ramp at the end of each step
+          const ramp = MathUtils.smoothstep(value - step, 1 - smoothness, 1);
+          return (step + ramp) / steps;
+        };
+      }
+
+      case "curve": {
+        const input = this.compile(node.input);
+        const points = [...node.points].sort((a, b) => a[0] - b[0]);
+
+        return (x, y, z) => evaluateCurve(points, input(x, y, z));
+      }
+
+      case "power": {
+        const input = this.compile(node.input);
+        const exponent = node.exponent;
+
+        return (x, y, z) => {
+          const value = input(x, y, z);
+          return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+        };
+      }
+
+      case "add":
+      case "multiply":
+      case "min":
+      case "max": {
+        const inputs = node.inputs.map((input) => this.compile(input));
+        const combine = COMBINERS[node.type];
+
+        return (x, y, z) => {
+          let result = inputs[0](x, y, z);
+          for (let i = 1; i < inputs.length; i++) {
+            result = combine(result, inputs[i](x, y, z));
+          }
+          return result;
+        };
+      }
+
+      case "mask": {
+        const mask = this.compile(node.mask);
+        const input = this.compile(node.input);
+        const fallback = node.fallback ? this.compile(node.fallback) : () => 0;
+        const threshold = node.threshold ?? 0;
+        const falloff = node.falloff ?? 0.1;
+
+        return (x, y, z) => {
+          const weight = MathUtils.smoothstep(mask(x, y, z), threshold - falloff, threshold + falloff);
+          if (weight <= 0) return fallback(x, y, z);
+          if (weight >= 1) return input(x, y, z);
+          return fallback(x, y, z) * (1 - weight) + input(x, y, z) * weight;
+        };
+      }
+    }
+  }
+}
+
+const COMBINERS: Record<"add" | "multiply" | "min" | "max", (a: number, b: number) => number> = {
+  add: (a, b) => a + b,
+  multiply: (a, b) => a * b,
+  min: Math.min,
+  max: Math.max,
+};
+
+/**
+ * Compile one of the fractal noise sources
+ */
+function compileSource(
+  type: "fbm" | "ridged" | "billow",
+  options: NoiseSourceOptions,
+  seed: number
+): Sampler {
+  const scale = options.scale ?? 1;
+  const octaves = Math.max(1, Math.floor(options.octaves ?? (type === "fbm" ? 4 : 1)));
+  const lacunarity = options.lacunarity ?? 2.0;
+  const gain = options.gain ?? 0.5;
+  const min = options.min ?? -1;
+  const max = options.max ?? 1;
+  const noises = Array.from({ length: octaves }, (_, i) => getGradientNoise(seed + i));
+  const gainNoise = getGradientNoise(seed + octaves);
+
+  return (x, y, z) => {
+    x *= scale;
+    y *= scale;
+    z *= scale;
+
+    // Variable gain makes some regions rougher than others
+    let octaveGain: number;
+    if (typeof gain === "object") {
+      const t = (gainNoise.noise3D(x / gain.scale, y / gain.scale, z / gain.scale) + 1) / 2;
+      octaveGain = gain.min + (gain.max - gain.min) * t;
+    } else {
+      octaveGain = gain;
+    }
+
+    let result = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let totalAmplitude = 0;
+    let weight = 1;
+
+    for (let i = 0; i < octaves; i++) {
+      const n = noises[i].noise3D(x * frequency, y * frequency, z * frequency);
+
+      if (type === "ridged") {
+        // Sharp crests, with each octave weighted by the previous one
+        let signal = 1 - Math.abs(n);
+        signal *= signal * weight;
+        weight = MathUtils.clamp(signal * 2, 0, 1);
+        result += signal * amplitude;
+      } else if (type === "billow") {
+        result += (Math.abs(n) * 2 - 1) * amplitude;
+      } else {
+        result += n * amplitude;
+      }
+
+      totalAmplitude += amplitude;
+      amplitude *= octaveGain;
+      frequency *= lacunarity;
+    }
+
+    result /= totalAmplitude;
+
+    // Ridged sums are in [0, 1]; bring them to [-1, 1] like the others
+    if (type === "ridged") {
+      result = result * 2 - 1;
+    }
+
+    return min + ((result + 1) / 2) * (max - min);
+  };
+}
+
+/**
+ * Check that a graph definition is well-formed
+ * @throws Error describing the first invalid node
+ */
+export function validateNoiseGraph(node: NoiseGraphNode, path: string = "root"): void {
+  if (!node || typeof node !== "object") {
+    throw new Error(`Noise graph node at ${path} must be an object`);
+  }
+
+  const requireNumber = (value: unknown, field: string) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`Noise graph node at ${path} needs a numeric "${field}"`);
+    }
+  };
+
+  const optionalNumber = (value: unknown, field: string) => {
+    if (value !== undefined) requireNumber(value, field);
+  };
+
+  const requirePositive = (value: unknown, field: string) => {
+    requireNumber(value, field);
+    if ((value as number) <= 0) {
+      throw new Error(`Noise graph node at ${path} needs a positive "${field}"`);
+    }
+  };
+
+  const optionalPositive = (value: unknown, field: string) => {
+    if (value !== undefined) requirePositive(value, field);
+  };
+
+  switch (node.type) {
+    case "constant":
+      requireNumber(node.value, "value");
+      return;
+
+    case "fbm":
+    case "ridged":
+    case "billow":
+      optionalPositive(node.scale, "scale");
+      if (node.octaves !== undefined && (!Number.isInteger(node.octaves) || node.octaves < 1)) {
+        throw new Error(`Noise graph node at ${path} needs a whole number of "octaves", at least 1`);
+      }
+      optionalPositive(node.lacunarity, "lacunarity");
+      if (typeof node.gain === "object" && node.gain !== null) {
+        requireNumber(node.gain.min, "gain.min");
+        requireNumber(node.gain.max, "gain.max");
+        requirePositive(node.gain.scale, "gain.scale");
+      } else {
+        optionalNumber(node.gain, "gain");
+      }
+      optionalNumber(node.seed, "seed");
+      optionalNumber(node.min, "min");
+      optionalNumber(node.max, "max");
+      return;
+
+    case "warp":
+      requireNumber(node.amount, "amount");
+      optionalPositive(node.scale, "scale");
+      optionalNumber(node.seed, "seed");
+      validateNoiseGraph(node.input, `${path}.input`);
+      return;
+
+    case "terrace":
+      if (!Number.isInteger(node.steps) || node.steps < 1) {
+        throw new Error(`Noise graph node at ${path} needs a whole number of "steps", at least 1`);
+      }
+      optionalNumber(node.smoothness, "smoothness");
+      validateNoiseGraph(node.input, `${path}.input`);
+      return;
+
+    case "curve":
+      if (!Array.isArray(node.points) || node.points.length < 2) {
+        throw new Error(`Noise graph node at ${path} needs at least two curve points`);
+      }
+      node.points.forEach((point, i) => {
+        if (!Array.isArray(point) || point.length !== 2) {
+          throw new Error(`Noise graph node at ${path} needs [input, output] pairs in "points", not points[${i}]`);
+        }
+        requireNumber(point[0], `points[${i}][0]`);
+        requireNumber(point[1], `points[${i}][1]`);
+      });
+      validateNoiseGraph(node.input, `${path}.input`);
+      return;
+
+    case "power":
+      requireNumber(node.exponent, "exponent");
+      validateNoiseGraph(node.input, `${path}.input`);
+      return;
+
+    case "add":
+    case "multiply":
+    case "min":
+    case "max":
+      if (!Array.isArray(node.inputs) || node.inputs.length === 0) {
+        throw new Error(`Noise graph node at ${path} needs at least one input`);
+      }
+      node.inputs.forEach((input, i) => validateNoiseGraph(input, `${path}.inputs[${i}]`));
+      return;
+
+    case "mask":
+      optionalNumber(node.threshold, "threshold");
+      optionalNumber(node.falloff, "falloff");
+      validateNoiseGraph(node.mask, `${path}.mask`);
+      validateNoiseGraph(node.input, `${path}.input`);
+      if (node.fallback) {
+        validateNoiseGraph(node.fallback, `${path}.fallback`);
+      }
+      return;
+
+    default:
+      throw new Error(`Unknown noise graph node type "${(node as { type: unknown }).type}" at ${path}`);
+  }
+}
+
+/**
+ * Piecewise linear interpolation through sorted [input, output] points
+ */
+function evaluateCurve(points: [number, number][], value: number): number {
+  if (value <= points[0][0]) return points[0][1];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[i + 1];
+
+    if (value <= x2) {
+      const t = x2 === x1 ? 1 : (value - x1) / (x2 - x1);
+      return y1 + (y2 - y1) * t;
+    }
+  }
+
+  return points[points.length - 1][1];
+}
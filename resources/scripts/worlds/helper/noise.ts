@@ -1,5 +1,7 @@
 import * as THREE from 'three';
-import { createNoise2D, createNoise3D, createNoise4D } from 'simplex-noise';
+import { createNoise2D } from 'simplex-noise';
+import { mulberry32 } from '../../utils/random';
+import { GradientNoise, getGradientNoise } from './gradient-noise';
 
 /**
  * UberNoise - A comprehensive noise generator for terrain generation
@@ -13,8 +15,9 @@ export class UberNoise {
   private lacunarity: number;
   private redistribution: number;
   private noise2D: ReturnType<typeof createNoise2D>;
-  private noise3D: ReturnType<typeof createNoise3D>;
-  private noise4D: ReturnType<typeof createNoise4D>;
+  private gradientNoise: GradientNoise;
+  // Generators of the octaves and layers, by seed
+  private layerNoises = new Map<number, GradientNoise>();
 
   constructor(seed: number, options: {
     scale?: number,
@@ -31,23 +34,8 @@ export class UberNoise {
     this.redistribution = options.redistribution || 1.0;
     
     // Initialize noise generators
-    const random = this.mulberry32(this.seed);
-    this.noise2D = createNoise2D(random);
-    this.noise3D = createNoise3D(random);
-    this.noise4D = createNoise4D(random);
-  }
-
-  /**
-   * Simple random function based on a seed
-   * @param seed - The seed value
-   */
-  private mulberry32(seed: number): () => number {
-    return () => {
-      let t = seed += 0x6D2B79F5;
-      t = Math.imul(t ^ t >>> 15, t | 1);
-      t ^= t + Math.imul(t ^ t >>> 7, t | 61);
-      return ((t ^ t >>> 14) >>> 0) / 4294967296;
-    };
+    this.noise2D = createNoise2D(mulberry32(this.seed));
+    this.gradientNoise = getGradientNoise(this.seed);
   }
 
   /**
@@ -99,20 +87,16 @@ export class UberNoise {
   }
 
   /**
-   * Generate simplex-like noise (an approximation as JS doesn't have native simplex noise)
+   * Generate simplex noise from an independently seeded permutation table,
+   * so octaves and the biome/moisture layers don't correlate
    */
   private simplexNoise(x: number, y: number, z: number, seed: number): number {
-    // This is a placeholder for actual simplex noise
-    // In a real implementation, you would use a proper simplex noise algorithm
-    // Here we use a combination of sine waves to approximate noise behavior
-    
-    const dot = (x * 12.9898) + (y * 78.233) + (z * 37.719) + seed;
-    const base = Math.sin(dot) * 43758.5453;
-    const noise1 = Math.sin(base * 1.0) * 0.5;
-    const noise2 = Math.sin(base * 1.7 + x * 1.1) * 0.25;
-    const noise3 = Math.sin(base * 2.3 + y * 0.9 + z * 1.3) * 0.125;
-    
-    return (noise1 + noise2 + noise3) * 1.143; // Normalize to roughly [-1, 1]
+    let noise = this.layerNoises.get(seed);
+    if (!noise) {
+      noise = getGradientNoise(seed);
+      this.layerNoises.set(seed, noise);
+    }
+    return noise.noise3D(x, y, z);
   }
 
   /**
@@ -175,37 +159,6 @@ export class UberNoise {
     return this.normalize(noise, -1, 1);
   }
 
-  /**
-   * Get a combined noise value for rivers
-   * Rivers tend to follow lower elevation areas
-   */
-  getRiverNoise(x: number, y: number, z: number, elevation: number): number {
-    // Different seed for river noise
-    const riverSeed = this.seed + 98765.4;
-    
-    // Rivers should follow valleys, so use a higher frequency
-    const riverScale = this.scale * 3.0;
-    
-    let noise = this.simplexNoise(
-      x * riverScale,
-      y * riverScale,
-      z * riverScale,
-      riverSeed
-    );
-    
-    // Make rivers more likely in lower elevations
-    const elevationFactor = 1.0 - Math.min(1.0, Math.max(0.0, elevation));
-    noise = noise * 0.5 + 0.5; // Convert to [0, 1]
-    
-    // Combine with elevation factor
-    noise = noise * 0.7 + elevationFactor * 0.3;
-    
-    // Apply a sharp falloff to create defined river channels
-    noise = 1.0 - Math.pow(noise, 8.0);
-    
-    return Math.max(0.0, Math.min(1.0, noise));
-  }
-
   /**
    * Normalize a value from one range to another (default 0-1)
    * @param value - The value to normalize
@@ -245,7 +198,7 @@ export class UberNoise {
    * @returns Noise value between -1 and 1
    */
   getNoise3D(x: number, y: number, z: number, scale: number = 1.0): number {
-    return this.noise3D(x * scale, y * scale, z * scale);
+    return this.gradientNoise.noise3D(x * scale, y * scale, z * scale);
   }
 
   /**
@@ -258,7 +211,7 @@ export class UberNoise {
    * @returns Noise value between -1 and 1
    */
   getNoise4D(x: number, y: number, z: number, w: number, scale: number = 1.0): number {
-    return this.noise4D(x * scale, y * scale, z * scale, w * scale);
+    return this.gradientNoise.noise4D(x * scale, y * scale, z * scale, w * scale);
   }
 
   /**
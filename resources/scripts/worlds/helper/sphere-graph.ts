@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+
+/**
+ * Vertex adjacency graph of a sphere mesh.
+ *
+ * Three's polyhedron geometries are not indexed, so each vertex appears once
+ * per face it belongs to. The graph welds those copies into unique vertices,
+ * which is what terrain passes like erosion and hydrology operate on.
+ */
+export interface SphereGraph {
+  // Unit direction of each unique vertex
+  positions: THREE.Vector3[];
+  // Geometry vertex index -> unique vertex index
+  vertexMap: Uint32Array;
+  // Neighbouring unique vertices
+  neighbors: number[][];
+  // Angular distance to each neighbour, parallel to `neighbors`
+  edgeLengths: number[][];
+}
+
+// Precision used to weld duplicate vertices
+const WELD_PRECISION = 1e5;
+
+/**
+ * Build the adjacency graph for a sphere geometry
+ * @param geometry - Indexed or non-indexed sphere geometry
+ */
+export function buildSphereGraph(geometry: THREE.BufferGeometry): SphereGraph {
+  const positionAttribute = geometry.getAttribute('position');
+  const vertexMap = new Uint32Array(positionAttribute.count);
+  const positions: THREE.Vector3[] = [];
+  const lookup = new Map<string, number>();
+
+  // Weld vertices sharing a direction
+  for (let i = 0; i < positionAttribute.count; i++) {
+    const direction = new THREE.Vector3(
+      positionAttribute.getX(i),
+      positionAttribute.getY(i),
+      positionAttribute.getZ(i)
+    ).normalize();
+
+    const key = `${Math.round(direction.x * WELD_PRECISION)},` +
+      `${Math.round(direction.y * WELD_PRECISION)},` +
+      `${Math.round(direction.z * WELD_PRECISION)}`;
+
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length;
+      positions.push(direction);
+      lookup.set(key, index);
+    }
+
+    vertexMap[i] = index;
+  }
+
+  // Collect edges from the faces
+  const neighborSets: Set<number>[] = positions.map(() => new Set<number>());
+  const index = geometry.getIndex();
+  const faceCount = index ? index.count / 3 : positionAttribute.count / 3;
+
+  for (let face = 0; face < faceCount; face++) {
+    const a = vertexMap[index ? index.getX(face * 3) : face * 3];
+    const b = vertexMap[index ? index.getX(face * 3 + 1) : face * 3 + 1];
+    const c = vertexMap[index ? index.getX(face * 3 + 2) : face * 3 + 2];
+
+    neighborSets[a].add(b).add(c);
+    neighborSets[b].add(a).add(c);
+    neighborSets[c].add(a).add(b);
+  }
+
+  const neighbors = neighborSets.map(set => Array.from(set));
+  const edgeLengths = neighbors.map((list, i) =>
+    list.map(j => positions[i].angleTo(positions[j]))
+  );
+
+  return { positions, vertexMap, neighbors, edgeLengths };
+}
@@ -1,63 +1,220 @@
 import * as THREE from "three";
 
+/**
+ * Atmosphere scattering configuration. Radii are in world units; scale
+ * heights are fractions of the atmosphere's thickness.
+ */
+export interface AtmosphereOptions {
+  // Direction towards the sun, in world space
+  sunDirection: THREE.Vector3;
+  sunIntensity: number;
+  // Radius of the surface the atmosphere starts from
+  planetRadius: number;
+  // Radius of the top of the atmosphere
+  atmosphereRadius: number;
+  // Height over which each kind of scatterer thins out by e
+  rayleighScaleHeight: number;
+  mieScaleHeight: number;
+  // Rayleigh scattering per world unit and colour channel at the
+  // surface; derived from the atmosphere colour when not given
+  rayleigh?: THREE.Vector3;
+  // Mie scattering per world unit at the surface
+  mie?: number;
+  // Mie phase asymmetry: 0 scatters evenly, towards 1 into the sun's glare
+  mieDirection: number;
+}
+
+/**
+ * Default atmosphere options
+ */
+export const DEFAULT_ATMOSPHERE_OPTIONS: AtmosphereOptions = {
+  sunDirection: new THREE.Vector3(1, 0, 0),
+  sunIntensity: 14,
+  planetRadius: 1,
+  atmosphereRadius: 1.15,
+  rayleighScaleHeight: 0.25,
+  mieScaleHeight: 0.1,
+  mieDirection: 0.76
+};
+
+// Optical depth straight up through the atmosphere for its most scattered
+// colour channel, and for haze. Thicker than Earth's: a planet this small
+// has short paths along the horizon, and sunsets need them to redden.
+const RAYLEIGH_OPTICAL_DEPTH = 0.7;
+const MIE_OPTICAL_DEPTH = 0.02;
+
 /**
  * Vertex shader for atmosphere effect
  */
 const atmosphereVertexShader = `
-varying vec3 vNormal;
 varying vec3 vWorldPosition;
+varying vec3 vCenter;
 
 void main() {
-  vNormal = normalize(normalMatrix * normal);
   vec4 worldPosition = modelMatrix * vec4(position, 1.0);
   vWorldPosition = worldPosition.xyz;
+  vCenter = (modelMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
   gl_Position = projectionMatrix * viewMatrix * worldPosition;
 }
 `;
 
 /**
- * Fragment shader for atmosphere effect
+ * Fragment shader for atmosphere effect: single scattering of sunlight
+ * marched along the view ray, with the light reaching each sample
+ * attenuated along its own path through the atmosphere
  */
 const atmosphereFragmentShader = `
-uniform vec3 glowColor;
-uniform vec3 viewPosition;
+#define ATMOSPHERE_PI 3.141592653589793
+#define PRIMARY_STEPS 12
+#define LIGHT_STEPS 6
+
+uniform vec3 sunDirection;
+uniform float sunIntensity;
+uniform float planetRadius;
+uniform float atmosphereRadius;
+uniform vec3 rayleighCoefficients;
+uniform float mieCoefficient;
+uniform float rayleighScaleHeight;
+uniform float mieScaleHeight;
+uniform float mieDirection;
 
-varying vec3 vNormal;
 varying vec3 vWorldPosition;
+varying vec3 vCenter;
+
+// Distances along a ray to where it enters and leaves a sphere around the
+// origin; the first is larger than the second when the ray misses
+vec2 raySphere(vec3 origin, vec3 direction, float radius) {
+  float b = dot(origin, direction);
+  float c = dot(origin, origin) - radius * radius;
+  float d = b * b - c;
+  if (d < 0.0) return vec2(1e5, -1e5);
+  d = sqrt(d);
+  return vec2(-b - d, -b + d);
+}
 
 void main() {
-  vec3 worldViewDirection = normalize(viewPosition - vWorldPosition);
-  
-  // Fresnel effect for edge glow
-  float fresnel = 1.0 - max(0.0, dot(vNormal, worldViewDirection));
-  
-  // Higher power for sharper edge glow
-  fresnel = pow(fresnel, 2.0);
-  
-  // Final color with alpha based on fresnel
-  gl_FragColor = vec4(glowColor, fresnel * 0.7);
+  // View ray relative to the planet centre
+  vec3 origin = cameraPosition - vCenter;
+  vec3 direction = normalize(vWorldPosition - cameraPosition);
+
+  vec2 atmosphere = raySphere(origin, direction, atmosphereRadius);
+  vec2 planet = raySphere(origin, direction, planetRadius);
+  float start = max(atmosphere.x, 0.0);
+  float end = planet.x <= planet.y && planet.x > 0.0 ? min(atmosphere.y, planet.x) : atmosphere.y;
+  if (end <= start) discard;
+
+  float stepLength = (end - start) / float(PRIMARY_STEPS);
+  vec3 rayleighSum = vec3(0.0);
+  vec3 mieSum = vec3(0.0);
+  float rayleighDepth = 0.0;
+  float mieDepth = 0.0;
+
+  for (int i = 0; i < PRIMARY_STEPS; i++) {
+    vec3 point = origin + direction * (start + (float(i) + 0.5) * stepLength);
+    float height = length(point) - planetRadius;
+    float rayleighDensity = exp(-height / rayleighScaleHeight) * stepLength;
+    float mieDensity = exp(-height / mieScaleHeight) * stepLength;
+    rayleighDepth += rayleighDensity;
+    mieDepth += mieDensity;
+
+    // Sunlight reaching the sample; none in the planet's shadow
+    float lightLength = raySphere(point, sunDirection, atmosphereRadius).y / float(LIGHT_STEPS);
+    float lightRayleigh = 0.0;
+    float lightMie = 0.0;
+    bool shadowed = false;
+    for (int j = 0; j < LIGHT_STEPS; j++) {
+      vec3 lightPoint = point + sunDirection * ((float(j) + 0.5) * lightLength);
+      float lightHeight = length(lightPoint) - planetRadius;
+      if (lightHeight < 0.0) {
+        shadowed = true;
+        break;
+      }
+      lightRayleigh += exp(-lightHeight / rayleighScaleHeight) * lightLength;
+      lightMie += exp(-lightHeight / mieScaleHeight) * lightLength;
+    }
+    if (shadowed) continue;
+
+    // Light lost on the way in from the sun and out to the camera
+    vec3 attenuation = exp(-(
+      rayleighCoefficients * (rayleighDepth + lightRayleigh) +
+      mieCoefficient * 1.1 * (mieDepth + lightMie)
+    ));
+    rayleighSum += rayleighDensity * attenuation;
+    mieSum += mieDensity * attenuation;
+  }
+
+  float mu = dot(direction, sunDirection);
+  float rayleighPhase = 3.0 / (16.0 * ATMOSPHERE_PI) * (1.0 + mu * mu);
+  float g = mieDirection;
+  float gg = g * g;
+  float miePhase = 3.0 / (8.0 * ATMOSPHERE_PI) * ((1.0 - gg) * (1.0 + mu * mu)) /
+    ((2.0 + gg) * pow(1.0 + gg - 2.0 * g * mu, 1.5));
+
+  vec3 color = sunIntensity * (
+    rayleighSum * rayleighCoefficients * rayleighPhase +
+    mieSum * mieCoefficient * miePhase
+  );
+
+  // Compress bright limbs instead of clipping them
+  gl_FragColor = vec4(1.0 - exp(-color), 1.0);
 }
 `;
 
 /**
- * Create an atmosphere material with the given color
- * 
- * @param color Color of the atmosphere
+ * Create a single-scattering atmosphere material. Draw it on a sphere of
+ * the atmosphere radius; the planet surface is taken to be a sphere of the
+ * planet radius, so the material needs no depth test.
+ *
+ * @param color Colour of the atmosphere seen from the side, which sets the
+ * Rayleigh coefficients unless they are given
+ * @param options Atmosphere configuration
  * @returns ShaderMaterial for atmosphere
  */
-export function createAtmosphereMaterial(color: THREE.Color): THREE.ShaderMaterial {
+export function createAtmosphereMaterial(
+  color: THREE.Color,
+  options: Partial<AtmosphereOptions> = {}
+): THREE.ShaderMaterial {
+  const settings = { ...DEFAULT_ATMOSPHERE_OPTIONS, ...options };
+  const thickness = settings.atmosphereRadius - settings.planetRadius;
+  const rayleighScaleHeight = settings.rayleighScaleHeight * thickness;
+  const mieScaleHeight = settings.mieScaleHeight * thickness;
+
   return new THREE.ShaderMaterial({
     uniforms: {
-      glowColor: { value: color },
-      viewPosition: { value: new THREE.Vector3(0, 0, 0) }
+      sunDirection: { value: settings.sunDirection.clone().normalize() },
+      sunIntensity: { value: settings.sunIntensity },
+      planetRadius: { value: settings.planetRadius },
+      atmosphereRadius: { value: settings.atmosphereRadius },
+      rayleighCoefficients: {
+        value: settings.rayleigh?.clone() ?? rayleighFromColor(color, rayleighScaleHeight)
+      },
+      mieCoefficient: { value: settings.mie ?? MIE_OPTICAL_DEPTH / mieScaleHeight },
+      rayleighScaleHeight: { value: rayleighScaleHeight },
+      mieScaleHeight: { value: mieScaleHeight },
+      mieDirection: { value: settings.mieDirection }
     },
     vertexShader: atmosphereVertexShader,
     fragmentShader: atmosphereFragmentShader,
     transparent: true,
     side: THREE.BackSide,
     blending: THREE.AdditiveBlending,
+    depthTest: false,
     depthWrite: false
   });
-  
-  return material;
-} 
\ No newline at end of file
+}
+
+/**
+ * Rayleigh coefficients that scatter a colour: thin air scatters each
+ * channel in proportion to its coefficient, and cubing the colour
+ * spreads the channels about as far apart as the 1/wavelength^4 law does
+ * for Earth's blue sky
+ */
+function rayleighFromColor(color: THREE.Color, scaleHeight: number): THREE.Vector3 {
+  const brightest = Math.max(color.r, color.g, color.b, 1e-3);
+  const scale = RAYLEIGH_OPTICAL_DEPTH / scaleHeight;
+  return new THREE.Vector3(
+    (color.r / brightest) ** 3 * scale,
+    (color.g / brightest) ** 3 * scale,
+    (color.b / brightest) ** 3 * scale
+  );
+}
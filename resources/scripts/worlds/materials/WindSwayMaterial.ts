@@ -0,0 +1,175 @@
+import * as THREE from "three";
+import { BATCH_OWNED } from "../vegetation/instancing";
+
+// Gust fronts per world unit along the wind, and how fast they travel
+const WIND_GUST_SCALE = 3.0;
+const WIND_GUST_SPEED = 0.8;
+// Heading the wind drifts around, and how far and how fast it turns
+const WIND_HEADING = 0.6;
+const WIND_TURN_RANGE = 0.8;
+const WIND_TURN_RATE = 0.02;
+
+/**
+ * Wind shared by every swaying material, advanced by advanceWind()
+ */
+const windUniforms = {
+    windTime: { value: 0.0 },
+    windDirection: { value: new THREE.Vector3(1, 0, 0) },
+    // Stays 0 until something advances the wind, so materials start still
+    windStrength: { value: 0.0 }
+};
+
+// Wind time reached by each caller of advanceWind()
+const windClocks = new WeakMap<object, number>();
+
+/**
+ * Vertex shader declarations for the sway
+ */
+const windSwayVertexPars = `
+uniform float windTime;
+uniform vec3 windDirection;
+uniform float windStrength;
+uniform float swayAmount;
+
+float windHash(float n) {
+    return fract(sin(n) * 43758.5453123);
+}
+
+// Smooth 1D value noise for gusts
+float windNoise(float x) {
+    float i = floor(x);
+    float f = fract(x);
+    float u = f * f * (3.0 - 2.0 * f);
+    return mix(windHash(i), windHash(i + 1.0), u);
+}
+`;
+
+/**
+ * Vertex shader sway, bending the model along the wind by the square of
+ * the vertex height. Models stand on y = 0 and are about one unit tall.
+ */
+const windSwayVertex = `
+#ifdef USE_INSTANCING
+    mat4 swayMatrix = modelMatrix * instanceMatrix;
+#else
+    mat4 swayMatrix = modelMatrix;
+#endif
+    vec3 swayOrigin = swayMatrix[3].xyz;
+
+    // Wind in model space, unscaled, and flattened onto the ground plane so
+    // it fades where it blows along the trunk
+    vec3 swayWind = vec3(
+        dot(swayMatrix[0].xyz, windDirection),
+        dot(swayMatrix[1].xyz, windDirection),
+        dot(swayMatrix[2].xyz, windDirection)
+    ) / max(length(swayMatrix[0].xyz), 1e-8);
+    swayWind.y = 0.0;
+
+    // Gusts roll through along the wind; each model flutters on its own phase
+    float gust = windNoise(dot(swayOrigin, windDirection) * ${WIND_GUST_SCALE.toFixed(1)} - windTime * ${WIND_GUST_SPEED.toFixed(1)});
+    float flutter = 0.25 * sin(windTime * 2.7 + dot(swayOrigin, vec3(37.0, 53.0, 41.0)) + transformed.y * 3.0);
+    float bend = windStrength * swayAmount * transformed.y * transformed.y * (0.4 + gust + flutter);
+
+    transformed.xz += swayWind.xz * bend;
+`;
+
+/**
+ * Standard material whose vertices sway in the shared wind. Works for
+ * plain and instanced meshes.
+ */
+export class WindSwayMaterial extends THREE.MeshStandardMaterial {
+    uniforms: { swayAmount: THREE.IUniform<number> };
+
+    /**
+     * @param parameters - Standard material parameters
+     * @param sway - Sideways bend at the top of a one unit tall model
+     */
+    constructor(parameters?: THREE.MeshStandardMaterialParameters, sway: number = 0) {
+        super(parameters);
+
+        this.uniforms = {
+            swayAmount: { value: sway }
+        };
+
+        // Set again on clones by the constructor, so copies keep swaying
+        this.onBeforeCompile = (shader) => {
+            Object.assign(shader.uniforms, windUniforms);
+            shader.uniforms.swayAmount = this.uniforms.swayAmount;
+
+            shader.vertexShader = shader.vertexShader
+                .replace(
+                    '#include <common>',
+                    `#include <common>
+                    ${windSwayVertexPars}`
+                )
+                .replace(
+                    '#include <begin_vertex>',
+                    `#include <begin_vertex>
+                    ${windSwayVertex}`
+                );
+        };
+    }
+
+    /**
+     * Sideways bend at the top of a one unit tall model
+     */
+    get sway(): number {
+        return this.uniforms.swayAmount.value;
+    }
+
+    set sway(value: number) {
+        this.uniforms.swayAmount.value = value;
+    }
+
+    copy(source: WindSwayMaterial): this {
+        super.copy(source);
+        this.uniforms.swayAmount.value = source.uniforms.swayAmount.value;
+        return this;
+    }
+}
+
+/**
+ * Advance the shared wind. Each caller keeps its own clock and the wind
+ * follows the furthest one, so several planets updating in the same frame
+ * do not speed it up.
+ * @param source - Object driving the wind, e.g. a planet
+ * @param deltaTime - Time since its last update in seconds
+ */
+export function advanceWind(source: object, deltaTime: number): void {
+    const time = (windClocks.get(source) ?? windUniforms.windTime.value) + deltaTime;
+    windClocks.set(source, time);
+    if (time <= windUniforms.windTime.value) return;
+
+    windUniforms.windTime.value = time;
+    windUniforms.windStrength.value = 1.0;
+
+    // Let the prevailing wind wander slowly around its heading
+    const heading = WIND_HEADING + Math.sin(time * WIND_TURN_RATE) * WIND_TURN_RANGE;
+    windUniforms.windDirection.value.set(Math.cos(heading), 0.3 * Math.sin(heading * 0.5), Math.sin(heading)).normalize();
+}
+
+/**
+ * Give meshes still copies of their swaying materials, so they ignore the
+ * shared wind. Meshes sharing a material share its copy.
+ * @param meshes - Meshes to hold still
+ */
+export function holdStill(meshes: THREE.Mesh[]): void {
+    const copies = new Map<WindSwayMaterial, THREE.MeshStandardMaterial>();
+
+    for (const mesh of meshes) {
+        if (!(mesh.material instanceof WindSwayMaterial)) continue;
+
+        let copy = copies.get(mesh.material);
+        if (!copy) {
+            copy = new THREE.MeshStandardMaterial().copy(mesh.material);
+            copy.userData[BATCH_OWNED] = true;
+            copies.set(mesh.material, copy);
+        }
+        mesh.material = copy;
+    }
+
+    // Swaying materials made for the meshes are no longer drawn
+    for (const material of copies.keys()) {
+        if (material.userData[BATCH_OWNED]) material.dispose();
+    }
+}
@@ -1,26 +1,37 @@
 import * as THREE from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { createProceduralModel } from "./vegetation/procedural";
+import { applyModelVariant, splitVariant } from "./vegetation/variants";
+import { WindSwayMaterial } from "./materials/WindSwayMaterial";
 
-// Base path for model resources
-const BASE_PATH = "/wp-content/plugins/bonsai-planets-wp/resources/models/";
+// Base path for model resources, for collections that do not set their own.
+// Empty until a page sets one, so the built-in models are generated.
+let basePath = "";
 
 /**
  * Type definitions for model collections
  */
-type CollectionModel = {
+export type CollectionModel = {
   name?: string;
   versions?: number;
+  // Generated rather than loaded from a file
+  procedural?: boolean;
   materials?: {
     [key: string]: {
       color?: string;
       roughness?: number;
       metalness?: number;
+      // Sideways bend in the wind at the top of the model; defaults by slot
+      sway?: number;
     }
   }
 };
 
-type Collection = {
+export type Collection = {
   name: string;
+  // URL of the folder holding the collection's folder; defaults to the
+  // shared base path
+  basePath?: string;
   models: { [key: string]: CollectionModel };
 };
 
@@ -48,12 +59,26 @@ export const lowPolyNatureCollectionModels: { [key: string]: CollectionModel } =
       Leaves: { color: '#458B00', roughness: 0.8, metalness: 0.0 }
     }
   },
+  Coral: {
+    versions: 3,
+    procedural: true,
+    materials: {
+      Coral: { color: '#e0745c', roughness: 0.7, metalness: 0.0 }
+    }
+  },
   Grass: {
     versions: 2,
     materials: {
       Grass: { color: '#7caa2d', roughness: 0.8, metalness: 0.0 }
     }
   },
+  Kelp: {
+    versions: 2,
+    procedural: true,
+    materials: {
+      Kelp: { color: '#6b7a2c', roughness: 0.8, metalness: 0.0 }
+    }
+  },
   PalmTree: {
     versions: 2,
     materials: {
@@ -74,6 +99,13 @@ export const lowPolyNatureCollectionModels: { [key: string]: CollectionModel } =
       Rock: { color: '#808080', roughness: 0.7, metalness: 0.1 }
     }
   },
+  Seagrass: {
+    versions: 2,
+    procedural: true,
+    materials: {
+      Grass: { color: '#3d7a4a', roughness: 0.8, metalness: 0.0 }
+    }
+  },
   Willow: {
     versions: 1,
     materials: {
@@ -91,6 +123,104 @@ export const lowPolyNatureCollection: Collection = {
   models: lowPolyNatureCollectionModels
 };
 
+// Registered collections by name; models are referenced as
+// "Collection/Model", or by bare name from the default collection
+const collections = new Map<string, Collection>([[lowPolyNatureCollection.name, lowPolyNatureCollection]]);
+const DEFAULT_COLLECTION = lowPolyNatureCollection.name;
+
+// Wind sway of material slots that do not set their own. Bark and leaves
+// bend alike so crowns stay on their trunks.
+const DEFAULT_SWAY: { [key: string]: number } = {
+  Bark: 0.04,
+  Leaves: 0.04,
+  Grass: 0.12,
+  Kelp: 0.15
+};
+
+// Loaded model files by URL, shared by every planet on the page
+const modelCache = new Map<string, Promise<THREE.Object3D | null>>();
+
+/**
+ * Set the base path of collections that do not set their own
+ * 
+ * @param path URL of the folder holding the collection folders; empty to
+ * generate their models instead of loading files
+ */
+export function setModelBasePath(path: string): void {
+  basePath = path ? withTrailingSlash(path) : "";
+}
+
+/**
+ * Register a collection so presets can reference its models. Registering
+ * a collection under an existing name replaces it.
+ * 
+ * @param collection Collection to register
+ */
+export function registerCollection(collection: Collection): void {
+  if (collection.name.includes("/")) {
+    throw new Error(`Collection name "${collection.name}" may not contain "/"`);
+  }
+  collections.set(collection.name, collection);
+}
+
+/**
+ * Get a registered collection
+ * 
+ * @param name Collection name
+ */
+export function getCollection(name: string): Collection | undefined {
+  return collections.get(name);
+}
+
+/**
+ * Look up a model reference such as "PineTree" or "MyCollection/Lantern".
+ * A variant suffix such as "PineTree_Snow" resolves to the base model.
+ * 
+ * @param reference Model reference
+ * @returns The collection, model and variant suffix, or null if the
+ * collection or model is not registered
+ */
+export function resolveModel(reference: string): {
+  collection: Collection;
+  modelName: string;
+  model: CollectionModel;
+  variant?: string;
+} | null {
+  const slash = reference.indexOf("/");
+  const collection = collections.get(slash < 0 ? DEFAULT_COLLECTION : reference.slice(0, slash));
+  if (!collection) return null;
+  
+  // Models named with an underscore take precedence over variants
+  const name = slash < 0 ? reference : reference.slice(slash + 1);
+  if (collection.models[name]) {
+    return { collection, modelName: name, model: collection.models[name] };
+  }
+  
+  const split = splitVariant(name);
+  const model = split ? collection.models[split.baseName] : undefined;
+  return split && model ? { collection, modelName: split.baseName, model, variant: split.suffix } : null;
+}
+
+/**
+ * Whether a model is a tree, i.e. has bark
+ * 
+ * @param reference Model reference
+ */
+export function isTreeModel(reference: string): boolean {
+  return Boolean(resolveModel(reference)?.model.materials?.Bark);
+}
+
+/**
+ * Reference to a model, bare for models of the default collection
+ */
+function modelReference(collection: Collection, modelName: string): string {
+  return collection.name === DEFAULT_COLLECTION ? modelName : `${collection.name}/${modelName}`;
+}
+
+function withTrailingSlash(path: string): string {
+  return path.endsWith("/") ? path : `${path}/`;
+}
+
 /**
  * Get all model names from a collection
  * 
@@ -114,6 +244,8 @@ export function getModelPathsAndMaterials(collection: Collection = lowPolyNature
   const paths: { [key: string]: string[] } = {};
   const materials: { [key: string]: { [key: string]: THREE.Material } } = {};
   
+  const root = collection.basePath ? withTrailingSlash(collection.basePath) : basePath;
+  
   // Process each model in the collection
   Object.entries(collection.models).forEach(([modelName, model]) => {
     paths[modelName] = [];
@@ -122,11 +254,16 @@ export function getModelPathsAndMaterials(collection: Collection = lowPolyNature
     // Process model materials
     if (model.materials) {
       Object.entries(model.materials).forEach(([materialName, materialProps]) => {
-        const material = new THREE.MeshStandardMaterial({
+        const parameters = {
           color: materialProps.color || '#ffffff',
           roughness: materialProps.roughness || 0.5,
           metalness: materialProps.metalness || 0.0
-        });
+        };
+        const sway = materialProps.sway ?? DEFAULT_SWAY[materialName] ?? 0;
+        const material = sway > 0
+          ? new WindSwayMaterial(parameters, sway)
+          : new THREE.MeshStandardMaterial(parameters);
+        material.name = materialName;
         
         materials[modelName][materialName] = material;
       });
@@ -135,7 +272,7 @@ export function getModelPathsAndMaterials(collection: Collection = lowPolyNature
     // Add paths for each version
     const versions = model.versions || 1;
     for (let i = 1; i <= versions; i++) {
-      paths[modelName].push(`${BASE_PATH}${collection.name}/${modelName}${versions > 1 ? i : ''}.gltf`);
+      paths[modelName].push(`${root}${collection.name}/${modelName}${versions > 1 ? i : ''}.gltf`);
     }
   });
   
@@ -143,52 +280,133 @@ export function getModelPathsAndMaterials(collection: Collection = lowPolyNature
 }
 
 /**
- * Load models from a collection
+ * Load models from a collection. Models whose files fail to load are
+ * replaced by generated low-poly stand-ins where one exists, as are those
+ * of collections without a base path, and procedural models are always
+ * generated. Files are loaded once per page; each call gets its own copies
+ * of the scenes, sharing geometry and materials.
  * 
  * @param collection Collection to load models from
- * @returns Promise that resolves to an array of loaded models
+ * @param seed Seed for the shapes of generated stand-ins
+ * @param modelNames Models to load; all of the collection's by default
+ * @returns Promise that resolves to an array of loaded models, named by
+ * their model reference and tagged with their version
  */
-export async function loadModels(collection: Collection = lowPolyNatureCollection): Promise<THREE.Object3D[]> {
+export async function loadModels(
+  collection: Collection = lowPolyNatureCollection,
+  seed: number = 0,
+  modelNames?: string[]
+): Promise<THREE.Object3D[]> {
   // Get model paths and materials
   const { paths, materials } = getModelPathsAndMaterials(collection);
-  
-  // Initialize GLTFLoader
-  const loader = new GLTFLoader();
-  const loadedModels: THREE.Object3D[] = [];
+  const hasFiles = Boolean(collection.basePath || basePath);
   
   // Load models from paths
-  const loadPromises = Object.entries(paths).flatMap(([modelName, modelPaths]) => {
-    return modelPaths.map(path => {
-      return new Promise<void>((resolve, reject) => {
-        loader.load(
-          path,
-          (gltf) => {
-            // Apply materials to model
-            gltf.scene.traverse((child) => {
-              if (child instanceof THREE.Mesh) {
-                const materialName = child.name.split('_')[0];
-                if (materials[modelName] && materials[modelName][materialName]) {
-                  child.material = materials[modelName][materialName];
-                }
-              }
-            });
-            
-            // Add model to loaded models
-            loadedModels.push(gltf.scene);
-            resolve();
-          },
-          undefined,
-          (error) => {
-            console.warn(`Error loading model ${path}:`, error);
-            resolve(); // Resolve anyway to avoid blocking other models
-          }
-        );
+  const loadPromises = Object.entries(paths)
+    .filter(([modelName]) => !modelNames || modelNames.includes(modelName))
+    .flatMap(([modelName, modelPaths]) => {
+      return modelPaths.map(async (path, version) => {
+        const scene = collection.models[modelName].procedural || !hasFiles
+          ? null
+          : await loadModelFile(path, materials[modelName]);
+        
+        // Fall back to a generated model with the same material slots
+        const model = scene
+          ? scene.clone()
+          : createProceduralModel(modelName, version, seed, materials[modelName]);
+        if (!model) return null;
+        
+        // Tag the model with its collection entry
+        model.name = modelReference(collection, modelName);
+        model.userData.version = version;
+        return model;
       });
     });
-  });
   
   // Wait for all models to load
-  await Promise.all(loadPromises);
+  const loadedModels = await Promise.all(loadPromises);
   
-  return loadedModels;
-} 
\ No newline at end of file
+  return loadedModels.filter((model): model is THREE.Object3D => model !== null);
+}
+
+/**
+ * Load the models behind a list of model references, from whichever
+ * collections they belong to, with their variants applied
+ * 
+ * @param references Model references such as "PineTree", "PineTree_Snow"
+ * or "MyCollection/Lantern"
+ * @param seed Seed for the shapes of generated stand-ins
+ * @returns Promise that resolves to an array of loaded models, named by
+ * their reference
+ */
+export async function loadModelReferences(references: string[], seed: number = 0): Promise<THREE.Object3D[]> {
+  // Group the base models by collection
+  const resolved = new Map<string, NonNullable<ReturnType<typeof resolveModel>>>();
+  const wanted = new Map<Collection, Set<string>>();
+  for (const reference of new Set(references)) {
+    const model = resolveModel(reference);
+    if (!model) {
+      console.warn(`Unknown model ${reference}`);
+      continue;
+    }
+    resolved.set(reference, model);
+    wanted.set(model.collection, (wanted.get(model.collection) ?? new Set()).add(model.modelName));
+  }
+  
+  const loaded = (await Promise.all(
+    [...wanted].map(([collection, modelNames]) => loadModels(collection, seed, [...modelNames]))
+  )).flat();
+  
+  // Hand out the base models, or variant copies of them
+  return [...resolved].flatMap(([reference, { collection, modelName, variant }]) => {
+    const baseReference = modelReference(collection, modelName);
+    return loaded
+      .filter(model => model.name === baseReference)
+      .map(model => {
+        if (!variant) return model;
+        
+        const copy = applyModelVariant(model.clone(), variant);
+        copy.name = reference;
+        return copy;
+      });
+  });
+}
+
+/**
+ * Load a model file once, applying the collection materials to it
+ * 
+ * @param path URL of the GLTF file
+ * @param materials Collection materials by slot name
+ * @returns Promise that resolves to the model scene, or null if it failed
+ */
+function loadModelFile(path: string, materials: { [key: string]: THREE.Material } = {}): Promise<THREE.Object3D | null> {
+  const cached = modelCache.get(path);
+  if (cached) return cached;
+  
+  const promise = new Promise<THREE.Object3D | null>((resolve) => {
+    new GLTFLoader().load(
+      path,
+      (gltf) => {
+        // Apply materials to model
+        gltf.scene.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            const materialName = child.name.split('_')[0];
+            if (materials[materialName]) {
+              child.material = materials[materialName];
+            }
+          }
+        });
+        
+        resolve(gltf.scene);
+      },
+      undefined,
+      (error) => {
+        console.warn(`Error loading model ${path}:`, error);
+        resolve(null); // Resolve anyway to avoid blocking other models
+      }
+    );
+  });
+  
+  modelCache.set(path, promise);
+  return promise;
+}
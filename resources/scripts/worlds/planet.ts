@@ -1,12 +1,42 @@
 import * as THREE from 'three';
 import { UberNoise } from './helper/noise';
+import { NoiseGraph, type NoiseGraphNode } from './helper/noise-graph';
+import { buildSphereGraph, type SphereGraph } from './helper/sphere-graph';
+import { TectonicPlates, type TectonicsOptions } from './terrain/tectonics';
+import { CraterField, type CraterOptions } from './terrain/craters';
+import { erodeTerrain, type ErosionOptions, type ErosionResult } from './terrain/erosion';
+import { computeHydrology, DEFAULT_HYDROLOGY_OPTIONS, type HydrologyOptions, type HydrologyResult } from './terrain/hydrology';
+import { latitudeTemperature, DEFAULT_ICE_CAP_OPTIONS, type IceCapOptions } from './climate/climate';
+import {
+  seasonalTemperature,
+  seasonalCooling,
+  DEFAULT_SEASON_OPTIONS,
+  type SeasonOptions
+} from './climate/seasons';
+import { computeMoisture, DEFAULT_RAIN_SHADOW_OPTIONS, type RainShadowOptions } from './climate/moisture';
+import {
+  BiomeTable,
+  DEFAULT_BIOME_TABLE,
+  ICE_BIOME_RULE,
+  BARREN_BIOME_RULE,
+  type BiomeRule,
+  type BiomeSample,
+  type BiomeWeight
+} from './biome-table';
 import { Octree } from './helper/octree';
-import { loadModels, getModelPathsAndMaterials } from './models';
+import { Random } from '../utils/random';
+import { createInstancedBatches, createTemplates, disposeInstancedBatch, type ModelInstance } from './vegetation/instancing';
+import { VegetationLOD, type VegetationLODOptions } from './vegetation/lod';
+import { scatterOnSphere, type ScatterItem } from './vegetation/poisson';
+import { variantColor } from './vegetation/variants';
+import { canVegetationGrow, type VegetationItem } from './biome';
+import { loadModelReferences, getModelPathsAndMaterials, resolveModel, isTreeModel } from './models';
 import { createAtmosphereMaterial } from './materials/AtmosphereMaterial';
 import { PlanetMaterialWithCaustics } from './materials/OceanCausticsMaterial';
+import { advanceWind, holdStill } from './materials/WindSwayMaterial';
 
 /**
- * Biome types for planet surface
+ * Biome types for planet surface (the rule ids of the default biome table)
  */
 export enum BiomeType {
   OCEAN = 'ocean',
@@ -19,7 +49,9 @@ export enum BiomeType {
   TUNDRA = 'tundra',
   RAINFOREST = 'rainforest',
   SAVANNA = 'savanna',
-  SWAMP = 'swamp'
+  SWAMP = 'swamp',
+  BARREN = 'barren',
+  ICE = 'ice'
 }
 
 /**
@@ -41,8 +73,84 @@ export interface PlanetOptions {
   minTreeHeight: number;
   maxTreeHeight: number;
   vegetationDensity: number;
+  // Sway vegetation in the wind from update(); off for reduced motion
+  windSway: boolean;
+  // Camera distances at which vegetation drops to simpler meshes and
+  // impostor sprites; tiers follow the camera given to update()
+  vegetationLOD?: Partial<VegetationLODOptions>;
+  // Axial tilt in degrees
+  axialTilt: number;
+  equatorTemperature: number;
+  poleTemperature: number;
+  iceCaps?: Partial<IceCapOptions>;
+  // Annual cycle advanced by update()
+  seasons?: Partial<SeasonOptions>;
+  // Moisture carried inland by prevailing winds instead of noise
+  rainShadow?: Partial<RainShadowOptions>;
+  // Biome classification table; defaults to DEFAULT_BIOME_TABLE
+  biomes?: BiomeRule[];
+  // Width of biome borders in temperature/moisture units (0 for hard edges)
+  biomeTransitionWidth: number;
+  // Number of biomes blended at each vertex
+  biomeBlendCount: number;
+  elevation?: NoiseGraphNode;
+  tectonics?: Partial<TectonicsOptions>;
+  craters?: Partial<CraterOptions>;
+  erosion?: Partial<ErosionOptions>;
+  hydrology?: Partial<HydrologyOptions>;
 }
 
+/**
+ * Per-vertex surface data kept after generation
+ */
+export interface BiomeData {
+  // Id of the dominant biome rule (a BiomeType for the default table)
+  biome: string;
+  // Blended biomes, strongest first, weights summing to 1
+  weights: { biome: string; weight: number }[];
+  temperature: number;
+  moisture: number;
+  slope: number;
+  // Material removed / deposited by erosion
+  erosion: number;
+  deposition: number;
+  // Upstream drainage area and lake depth from hydrology
+  flow: number;
+  lakeDepth: number;
+}
+
+/**
+ * A piece of vegetation placed on the surface
+ */
+export interface VegetationInstance {
+  // Model name in the collection, and which of its versions
+  model: string;
+  version: number;
+  position: THREE.Vector3;
+  // Surface normal the model stands along
+  normal: THREE.Vector3;
+  // Turn about the normal in radians
+  rotation: number;
+  // Height of the model in world units
+  scale: number;
+  // Colour per material name, picked from the item's colour choices
+  colors?: Record<string, number>;
+}
+
+/**
+ * Default elevation pipeline: continents, ridged mountains, hills and a
+ * little high frequency detail, summed into a roughly 0-1 range
+ */
+export const DEFAULT_ELEVATION_GRAPH: NoiseGraphNode = {
+  type: 'add',
+  inputs: [
+    { type: 'fbm', scale: 0.5, octaves: 2, min: 0, max: 0.5 },
+    { type: 'ridged', scale: 1.0, octaves: 4, min: 0, max: 0.35 },
+    { type: 'fbm', scale: 2.0, octaves: 3, min: 0, max: 0.15 },
+    { type: 'fbm', scale: 8.0, octaves: 2, min: 0, max: 0.05 }
+  ]
+};
+
 /**
  * Default planet options
  */
@@ -61,22 +169,96 @@ export const DEFAULT_PLANET_OPTIONS: PlanetOptions = {
   atmosphereColor: new THREE.Color(0x88aaff),
   minTreeHeight: 0.5,
   maxTreeHeight: 0.8,
-  vegetationDensity: 0.5
+  vegetationDensity: 0.5,
+  windSway: true,
+  axialTilt: 23.5,
+  equatorTemperature: 0.9,
+  poleTemperature: 0.05,
+  biomeTransitionWidth: 0.08,
+  biomeBlendCount: 3
 };
 
+// Colour of freshly deposited sediment, and the deposit depth at full tint
+const SEDIMENT_COLOR = new THREE.Color(0xb8a27a);
+const SEDIMENT_TINT_DEPTH = 0.01;
+
+// Colour of fresh crater ejecta
+const EJECTA_COLOR = new THREE.Color(0xdedad2);
+
+// Height of lake and river surfaces above the terrain, relative to the radius
+const WATER_SURFACE_OFFSET = 0.002;
+// Half width of a river at the river threshold, relative to the radius, and
+// how many times wider the largest rivers get
+const RIVER_WIDTH = 0.0015;
+const RIVER_MAX_WIDENING = 3;
+
+// How far temperature noise moves a point away from its latitude's climate
+const TEMPERATURE_VARIATION = 0.3;
+
+// Fraction of a year the season moves before the surface is recoloured
+const SEASON_RECOLOR_STEP = 1 / 180;
+
+// Item density at which, at full vegetation density, an item keeps every
+// blue noise point in its biome; and the density of items that set none
+const FULL_VEGETATION_DENSITY = 100;
+const DEFAULT_VEGETATION_DENSITY = 20;
+// Spacing on the unit sphere of trees and of smaller plants and rocks,
+// for items that set no minimum distance
+const TREE_SPACING = 0.015;
+const PLANT_SPACING = 0.01;
+// Height of trees and of smaller plants and rocks, relative to the radius
+const TREE_SIZE = 0.04;
+const PLANT_SIZE = 0.012;
+// Height of the top of the atmosphere above sea level, relative to the
+// sea level radius
+const ATMOSPHERE_THICKNESS = 0.15;
+
 /**
  * Class representing a procedurally generated planet
  */
 export class Planet {
   options: PlanetOptions;
   noise: UberNoise;
+  elevationGraph: NoiseGraph;
+  tectonics?: TectonicPlates;
+  craters?: CraterField;
+  surfaceGraph: SphereGraph;
+  elevations: Float32Array;
+  slopes: Float32Array;
+  moisture?: Float32Array;
+  biomeTable: BiomeTable;
+  erosion?: ErosionResult;
+  hydrology?: HydrologyResult;
   geometry: THREE.BufferGeometry;
   mesh: THREE.Mesh;
   oceanMesh?: THREE.Mesh;
   atmosphereMesh?: THREE.Mesh;
+  waterGroup?: THREE.Group;
+  iceMesh?: THREE.Mesh;
   vegetationGroup?: THREE.Group;
-  octree?: Octree;
-  biomeData: Map<number, { biome: BiomeType, temperature: number, moisture: number }>;
+  vegetationLOD?: VegetationLOD;
+  octree?: Octree<THREE.Vector3>;
+  vegetation: VegetationInstance[] = [];
+  biomeData: Map<number, BiomeData>;
+  seasons?: SeasonOptions;
+  // Time of year (0-1)
+  season: number = 0;
+  
+  // Per unique vertex: biome data, the annual mean sample it was
+  // classified by, crater ejecta and whether it is frozen this season
+  private surfaceData: BiomeData[] = [];
+  private surfaceSamples: BiomeSample[] = [];
+  private surfaceEjecta?: Float32Array;
+  private surfaceFrozen: Uint8Array;
+  // Unique vertex under each sea ice vertex
+  private iceVertices: number[] = [];
+  // Season the colours were last computed for
+  private coloredSeason: number = 0;
+  // Set once disposed, so late model loads are dropped
+  private disposed: boolean = false;
+  // Face centres on the unit sphere, for finding the face under a point
+  private faceIndex?: Octree<FaceCenter>;
+  private faceSearchRadius: number = 0;
   
   /**
    * Create a new planet instance
@@ -86,6 +268,13 @@ export class Planet {
     this.options = { ...DEFAULT_PLANET_OPTIONS, ...options };
     this.biomeData = new Map();
     
+    // Start the annual cycle if enabled
+    if (this.options.seasons) {
+      this.seasons = { ...DEFAULT_SEASON_OPTIONS, ...this.options.seasons };
+      this.season = this.seasons.start;
+      this.coloredSeason = this.season;
+    }
+    
     // Initialize noise generator
     this.noise = new UberNoise(this.options.seed, {
       scale: 1.0,
@@ -93,8 +282,53 @@ export class Planet {
       persistence: 0.5
     });
     
+    // Build the elevation pipeline from its graph definition
+    this.elevationGraph = new NoiseGraph(
+      this.options.elevation ?? DEFAULT_ELEVATION_GRAPH,
+      this.options.seed
+    );
+    
+    // Place tectonic plates if enabled
+    if (this.options.tectonics) {
+      this.tectonics = new TectonicPlates(
+        this.options.seed,
+        this.options.waterLevel,
+        this.options.tectonics
+      );
+    }
+    
+    // Scatter impact craters if enabled
+    if (this.options.craters) {
+      this.craters = new CraterField(this.options.seed, this.options.craters);
+    }
+    
+    // Create base icosahedron geometry and its vertex adjacency
+    const baseGeometry = new THREE.IcosahedronGeometry(
+      this.options.radius, 
+      this.options.resolution
+    );
+    this.surfaceGraph = buildSphereGraph(baseGeometry);
+    this.surfaceFrozen = new Uint8Array(this.surfaceGraph.positions.length);
+    
+    // Set up biome classification
+    this.biomeTable = this.createBiomeTable();
+    
+    // Compute the elevation field and run terrain passes over it
+    this.elevations = this.createElevations();
+    this.slopes = this.computeSlopes(this.elevations);
+    
+    // Carry moisture inland with the prevailing winds
+    if (this.options.rainShadow) {
+      this.moisture = computeMoisture(
+        this.surfaceGraph,
+        this.elevations,
+        this.options.waterLevel,
+        this.options.rainShadow
+      );
+    }
+    
     // Create planet geometry
-    this.geometry = this.createPlanetGeometry();
+    this.geometry = this.createPlanetGeometry(baseGeometry);
     
     // Create planet mesh
     const material = new THREE.MeshStandardMaterial({
@@ -107,9 +341,19 @@ export class Planet {
     this.mesh.castShadow = true;
     this.mesh.receiveShadow = true;
     
+    // Create lakes and rivers if hydrology ran
+    if (this.hydrology) {
+      this.createWater(baseGeometry);
+    }
+    
     // Create ocean if enabled
     if (this.options.hasOcean) {
       this.createOcean();
+      
+      // Freeze the polar sea
+      if (this.options.iceCaps) {
+        this.createSeaIce(baseGeometry);
+      }
     }
     
     // Create atmosphere if enabled
@@ -124,44 +368,166 @@ export class Planet {
   }
   
   /**
-   * Create the planet geometry with terrain features
+   * Compute the elevation of every unique surface vertex and apply the
+   * optional terrain passes
    */
-  private createPlanetGeometry(): THREE.BufferGeometry {
-    // Create base icosahedron geometry
-    const baseGeometry = new THREE.IcosahedronGeometry(
-      this.options.radius, 
-      this.options.resolution
-    );
+  private createElevations(): Float32Array {
+    const { positions } = this.surfaceGraph;
+    const elevations = new Float32Array(positions.length);
+    
+    // Keep crater ejecta so the surface can be recoloured
+    if (this.craters) {
+      this.surfaceEjecta = new Float32Array(positions.length);
+    }
+    
+    // Raw elevation from noise, tectonics and craters
+    for (let v = 0; v < positions.length; v++) {
+      elevations[v] = this.getElevation(positions[v], v);
+    }
+    
+    // Let the biomes reshape their terrain before water runs over it
+    this.shapeElevations(elevations);
+    
+    // Carve valleys and deposit sediment
+    if (this.options.erosion) {
+      this.erosion = erodeTerrain(
+        this.surfaceGraph,
+        elevations,
+        this.options.waterLevel,
+        this.options.seed,
+        this.options.erosion
+      );
+    }
     
+    // Fill lakes and carve rivers
+    if (this.options.hydrology) {
+      this.hydrology = computeHydrology(
+        this.surfaceGraph,
+        elevations,
+        this.options.waterLevel,
+        this.options.hydrology
+      );
+    }
+    
+    return elevations;
+  }
+  
+  /**
+   * Apply the blended height shapes of the biomes. Biomes are classified
+   * from the unshaped heights and slopes, and without wind-borne moisture,
+   * which needs the final terrain.
+   * @param elevations - Elevation of every unique vertex, shaped in place
+   */
+  private shapeElevations(elevations: Float32Array): void {
+    const { positions } = this.surfaceGraph;
+    const slopes = this.computeSlopes(elevations);
+    
+    for (let v = 0; v < positions.length; v++) {
+      const { weights, sample } = this.getBiomeData(positions[v], elevations[v], slopes[v]);
+      if (weights.some(entry => entry.rule.height)) {
+        const height = this.biomeTable.applyBlendedHeight(weights, sample.elevation, positions[v]);
+        elevations[v] = this.options.waterLevel + height;
+      }
+    }
+  }
+  
+  /**
+   * Steepest height change per radian from each unique vertex to its
+   * neighbours
+   * @param elevations - Elevation of every unique vertex
+   */
+  private computeSlopes(elevations: Float32Array): Float32Array {
+    const { neighbors, edgeLengths } = this.surfaceGraph;
+    const slopes = new Float32Array(elevations.length);
+    
+    for (let v = 0; v < slopes.length; v++) {
+      for (let i = 0; i < neighbors[v].length; i++) {
+        const rise = Math.abs(elevations[v] - elevations[neighbors[v][i]]);
+        slopes[v] = Math.max(slopes[v], rise / edgeLengths[v][i]);
+      }
+    }
+    
+    return slopes;
+  }
+  
+  /**
+   * Build the biome table from the options, adding polar ice when ice caps
+   * are enabled. Airless, dry worlds are bare rock everywhere.
+   */
+  private createBiomeTable(): BiomeTable {
+    const palette = {
+      waterColor: this.options.waterColor,
+      landColor: this.options.landColor,
+      mountainColor: this.options.mountainColor,
+      snowColor: this.options.snowColor
+    };
+    
+    if (!this.options.hasOcean && !this.options.hasAtmosphere) {
+      return new BiomeTable([BARREN_BIOME_RULE], palette, this.options.seed);
+    }
+    
+    const rules = [...(this.options.biomes ?? DEFAULT_BIOME_TABLE)];
+    
+    // Polar ice covers land and sea alike
+    if (this.options.iceCaps) {
+      const { temperature } = { ...DEFAULT_ICE_CAP_OPTIONS, ...this.options.iceCaps };
+      rules.unshift({ ...ICE_BIOME_RULE, temperature: { max: temperature } });
+    }
+    
+    return new BiomeTable(rules, palette, this.options.seed);
+  }
+  
+  /**
+   * Create the planet geometry with terrain features
+   * @param baseGeometry - Icosahedron the surface graph was built from
+   */
+  private createPlanetGeometry(baseGeometry: THREE.BufferGeometry): THREE.BufferGeometry {
     const geometry = new THREE.BufferGeometry();
     const positionAttribute = baseGeometry.getAttribute('position');
     const positions = new Float32Array(positionAttribute.array.length);
     const colors = new Float32Array(positionAttribute.array.length);
     const normals = new Float32Array(positionAttribute.array.length);
+    const { vertexMap } = this.surfaceGraph;
+    
+    // Biome data per unique vertex
+    this.surfaceData = this.surfaceGraph.positions.map((pos, v) => {
+      const { weights, sample } = this.getBiomeData(
+        pos,
+        this.elevations[v],
+        this.slopes[v],
+        this.moisture?.[v]
+      );
+      const rule = weights[0].rule;
+      this.surfaceSamples[v] = { ...sample };
+      
+      return {
+        biome: rule.id,
+        weights: weights.map(entry => ({ biome: entry.rule.id, weight: entry.weight })),
+        temperature: sample.temperature,
+        moisture: sample.moisture,
+        slope: sample.slope,
+        erosion: this.erosion ? this.erosion.erosion[v] : 0,
+        deposition: this.erosion ? this.erosion.deposition[v] : 0,
+        flow: this.hydrology ? this.hydrology.accumulation[v] : 0,
+        lakeDepth: this.hydrology ? this.hydrology.lakeDepth[v] : 0
+      };
+    });
+    
+    // Colour per unique vertex for the current season
+    const surfaceColors = this.surfaceGraph.positions.map((_, v) => this.getSurfaceColor(v));
     
     // Generate heightmap and colors for each vertex
     for (let i = 0; i < positionAttribute.count; i++) {
       const index = i * 3;
+      const v = vertexMap[i];
       
-      // Get original vertex position
-      const x = positionAttribute.getX(i);
-      const y = positionAttribute.getY(i);
-      const z = positionAttribute.getZ(i);
-      
-      // Normalize to get unit vector from center to vertex
-      const pos = new THREE.Vector3(x, y, z).normalize();
-      
-      // Get elevation noise
-      const elevation = this.getElevation(pos);
-      
-      // Get biome data
-      const { biome, temperature, moisture } = this.getBiomeData(pos, elevation);
+      // Unit vector from center to vertex
+      const pos = this.surfaceGraph.positions[v];
+      const elevation = this.elevations[v];
+      const color = surfaceColors[v];
       
       // Store biome data for later use
-      this.biomeData.set(i, { biome, temperature, moisture });
-      
-      // Get color based on biome
-      const color = this.getBiomeColor(biome, elevation, temperature, moisture);
+      this.biomeData.set(i, this.surfaceData[v]);
       
       // Apply elevation to position
       const finalRadius = this.options.radius * (1.0 + elevation);
@@ -194,6 +560,108 @@ export class Planet {
     return geometry;
   }
   
+  /**
+   * Colour of a unique vertex at the current time of year. Re-classifies
+   * the cached annual mean sample with the seasonal temperature, so snow
+   * lines and ice caps move, then turns deciduous plants.
+   * @param vertex - Unique vertex index
+   */
+  private getSurfaceColor(vertex: number): THREE.Color {
+    const data = this.surfaceData[vertex];
+    const annual = this.surfaceSamples[vertex];
+    const sinLatitude = this.surfaceGraph.positions[vertex].y;
+    
+    // Shift the temperature for the season; the sea changes less
+    let temperature = annual.temperature;
+    if (this.seasons) {
+      const shift = seasonalTemperature(
+        sinLatitude,
+        this.options.axialTilt,
+        this.season,
+        this.seasons.amplitude
+      );
+      temperature += annual.elevation > 0 ? shift : shift * this.seasons.oceanDamping;
+    }
+    
+    const sample: BiomeSample = { ...annual, temperature };
+    const weights = this.biomeTable.weigh(
+      sample,
+      this.options.biomeTransitionWidth,
+      this.options.biomeBlendCount
+    );
+    const frozen = weights[0].rule.id === BiomeType.ICE;
+    this.surfaceFrozen[vertex] = frozen ? 1 : 0;
+    
+    // Lake beds look like the sea floor; the water layer sits on top
+    if (data.lakeDepth > 0 && !frozen) {
+      return this.options.waterColor.clone().multiplyScalar(0.7);
+    }
+    
+    // Colour by the terrain as shaped, keying the noise on the annual mean
+    const elevation = this.elevations[vertex] - this.options.waterLevel;
+    const color = this.getBiomeColor(
+      weights,
+      { ...sample, elevation },
+      data.deposition - data.erosion,
+      this.surfaceEjecta ? this.surfaceEjecta[vertex] : 0,
+      { ...annual, elevation }
+    );
+    
+    if (!this.seasons || elevation <= 0) return color;
+    
+    // Turn leaves while cooling, then drop them
+    const { autumnTemperature, bareTemperature, deciduous } = this.seasons;
+    const leaves = weights.reduce(
+      (sum, { rule, weight }) => sum + (deciduous.includes(rule.id) ? weight : 0),
+      0
+    );
+    
+    if (leaves > 0) {
+      const cooling = THREE.MathUtils.smoothstep(seasonalCooling(sinLatitude, this.season), 0, 0.4);
+      const autumn = (1 - THREE.MathUtils.smoothstep(temperature, autumnTemperature - 0.05, autumnTemperature + 0.05)) * cooling;
+      const bare = 1 - THREE.MathUtils.smoothstep(temperature, bareTemperature - 0.05, bareTemperature + 0.05);
+      color.lerp(this.seasons.autumnColor, autumn * leaves * 0.8);
+      color.lerp(this.seasons.bareColor, bare * leaves * 0.8);
+    }
+    
+    // Lay snow below the snow line
+    const { snowTemperature } = this.seasons;
+    const snow = 1 - THREE.MathUtils.smoothstep(temperature, snowTemperature - 0.05, snowTemperature);
+    if (snow > 0) {
+      color.lerp(this.options.snowColor, snow * 0.9);
+    }
+    
+    return color;
+  }
+  
+  /**
+   * Recolour the surface and sea ice for the current season. Only the
+   * colour attributes change; the geometry is left as it is.
+   */
+  private applySeason(): void {
+    const { vertexMap, positions } = this.surfaceGraph;
+    const surfaceColors = positions.map((_, v) => this.getSurfaceColor(v));
+    
+    const colorAttribute = this.geometry.getAttribute('color');
+    for (let i = 0; i < colorAttribute.count; i++) {
+      const color = surfaceColors[vertexMap[i]];
+      colorAttribute.setXYZ(i, color.r, color.g, color.b);
+    }
+    colorAttribute.needsUpdate = true;
+    
+    this.updateSeaIce();
+    this.coloredSeason = this.season;
+  }
+  
+  /**
+   * Set the time of year and recolour the planet
+   * @param season - Time of year (0-1, 0 is the northern spring equinox)
+   */
+  setSeason(season: number): void {
+    this.season = ((season % 1) + 1) % 1;
+    this.applySeason();
+  }
+  
   /**
    * Create ocean mesh for the planet
    */
@@ -221,23 +689,261 @@ export class Planet {
     this.oceanMesh.receiveShadow = true;
   }
   
+  /**
+   * Create the lake and river water layer from the hydrology result
+   * @param baseGeometry - Icosahedron the surface graph was built from
+   */
+  private createWater(baseGeometry: THREE.BufferGeometry): void {
+    if (!this.hydrology) return;
+    
+    const { lakeDepth, accumulation, rivers } = this.hydrology;
+    const { vertexMap, positions } = this.surfaceGraph;
+    this.waterGroup = new THREE.Group();
+    
+    const waterMaterial = new THREE.MeshStandardMaterial({
+      color: this.options.waterColor,
+      transparent: true,
+      opacity: 0.8,
+      roughness: 0.1,
+      metalness: 0.2
+    });
+    
+    // Lakes: a flat surface over every face touching a lake, so the
+    // shore cuts the water where the terrain rises through it
+    const lakePositions: number[] = [];
+    const faceCount = baseGeometry.getAttribute('position').count / 3;
+    
+    for (let face = 0; face < faceCount; face++) {
+      const corners = [
+        vertexMap[face * 3],
+        vertexMap[face * 3 + 1],
+        vertexMap[face * 3 + 2]
+      ];
+      
+      const lakeCorners = corners.filter(v => lakeDepth[v] > 0);
+      if (lakeCorners.length === 0) continue;
+      
+      const surface = Math.max(...lakeCorners.map(v => this.elevations[v] + lakeDepth[v]));
+      for (const v of corners) {
+        const point = positions[v].clone()
+          .multiplyScalar(this.options.radius * (1.0 + surface + WATER_SURFACE_OFFSET));
+        lakePositions.push(point.x, point.y, point.z);
+      }
+    }
+    
+    if (lakePositions.length > 0) {
+      const lakeGeometry = new THREE.BufferGeometry();
+      lakeGeometry.setAttribute('position', new THREE.Float32BufferAttribute(lakePositions, 3));
+      lakeGeometry.computeVertexNormals();
+      
+      const lakeMesh = new THREE.Mesh(lakeGeometry, waterMaterial);
+      lakeMesh.receiveShadow = true;
+      this.waterGroup.add(lakeMesh);
+    }
+    
+    // Rivers: a ribbon along each carved course, widening downstream
+    const riverPositions: number[] = [];
+    const riverNormals: number[] = [];
+    const riverIndices: number[] = [];
+    const { riverThreshold } = { ...DEFAULT_HYDROLOGY_OPTIONS, ...this.options.hydrology };
+    const side = new THREE.Vector3();
+    
+    for (const course of rivers) {
+      const points = course.map(v => this.getWaterSurfacePoint(v));
+      const start = riverPositions.length / 3;
+      
+      points.forEach((point, i) => {
+        const up = positions[course[i]];
+        const widening = Math.min(RIVER_MAX_WIDENING, Math.sqrt(accumulation[course[i]] / riverThreshold));
+        
+        // Across the course, from the points either side
+        side.subVectors(points[Math.min(i + 1, points.length - 1)], points[Math.max(i - 1, 0)])
+          .cross(up)
+          .setLength(this.options.radius * RIVER_WIDTH * widening);
+        
+        riverPositions.push(
+          point.x + side.x, point.y + side.y, point.z + side.z,
+          point.x - side.x, point.y - side.y, point.z - side.z
+        );
+        riverNormals.push(up.x, up.y, up.z, up.x, up.y, up.z);
+      });
+      
+      for (let i = 0; i < points.length - 1; i++) {
+        const left = start + i * 2;
+        riverIndices.push(left, left + 2, left + 1, left + 1, left + 2, left + 3);
+      }
+    }
+    
+    if (riverIndices.length > 0) {
+      const riverGeometry = new THREE.BufferGeometry();
+      riverGeometry.setAttribute('position', new THREE.Float32BufferAttribute(riverPositions, 3));
+      riverGeometry.setAttribute('normal', new THREE.Float32BufferAttribute(riverNormals, 3));
+      riverGeometry.setIndex(riverIndices);
+      
+      const riverMesh = new THREE.Mesh(riverGeometry, waterMaterial);
+      riverMesh.receiveShadow = true;
+      this.waterGroup.add(riverMesh);
+    }
+  }
+  
+  /**
+   * Position of the water surface above a surface graph vertex
+   * @param vertex - Unique vertex index
+   */
+  private getWaterSurfacePoint(vertex: number): THREE.Vector3 {
+    const elevation = this.elevations[vertex] + (this.hydrology?.lakeDepth[vertex] ?? 0);
+    return this.surfaceGraph.positions[vertex].clone()
+      .multiplyScalar(this.options.radius * (1.0 + elevation + WATER_SURFACE_OFFSET));
+  }
+  
+  /**
+   * Get the river courses as polylines on the planet surface, from source
+   * to mouth or confluence
+   * @returns One array of points per river, empty without hydrology
+   */
+  getRivers(): THREE.Vector3[][] {
+    if (!this.hydrology) return [];
+    
+    return this.hydrology.rivers.map(course =>
+      course.map(vertex => this.getWaterSurfacePoint(vertex))
+    );
+  }
+  
+  /**
+   * Create the sea ice shell over ocean that freezes at some time of year.
+   * Vertex alpha hides the parts that are thawed this season.
+   * @param baseGeometry - Icosahedron the surface graph was built from
+   */
+  private createSeaIce(baseGeometry: THREE.BufferGeometry): void {
+    const { vertexMap, positions } = this.surfaceGraph;
+    const icePositions: number[] = [];
+    const radius = this.options.radius * (1.0 + this.options.waterLevel + WATER_SURFACE_OFFSET);
+    const faceCount = baseGeometry.getAttribute('position').count / 3;
+    
+    // Vertices cold enough to freeze in the depth of winter
+    const { temperature } = { ...DEFAULT_ICE_CAP_OPTIONS, ...this.options.iceCaps };
+    const freezes = (v: number) => {
+      const swing = this.seasons
+        ? Math.abs(seasonalTemperature(positions[v].y, this.options.axialTilt, 0.25, this.seasons.amplitude)) *
+          this.seasons.oceanDamping
+        : 0;
+      return this.surfaceSamples[v].temperature - swing < temperature + this.options.biomeTransitionWidth;
+    };
+    
+    // Every face that can freeze at all three corners; land pokes through the shell
+    this.iceVertices = [];
+    for (let face = 0; face < faceCount; face++) {
+      const corners = [
+        vertexMap[face * 3],
+        vertexMap[face * 3 + 1],
+        vertexMap[face * 3 + 2]
+      ];
+      
+      if (!corners.every(freezes)) continue;
+      
+      for (const v of corners) {
+        const pos = positions[v];
+        icePositions.push(pos.x * radius, pos.y * radius, pos.z * radius);
+        this.iceVertices.push(v);
+      }
+    }
+    
+    if (icePositions.length === 0) return;
+    
+    const iceGeometry = new THREE.BufferGeometry();
+    iceGeometry.setAttribute('position', new THREE.Float32BufferAttribute(icePositions, 3));
+    iceGeometry.setAttribute('color', new THREE.Float32BufferAttribute(
+      new Float32Array(this.iceVertices.length * 4).fill(1), 4
+    ));
+    iceGeometry.computeVertexNormals();
+    
+    const iceMaterial = new THREE.MeshStandardMaterial({
+      color: this.getBiomeColor(
+        [{ rule: this.biomeTable.get(BiomeType.ICE) ?? ICE_BIOME_RULE, weight: 1 }],
+        { temperature: 0, moisture: 0.5, elevation: 0, slope: 0 }
+      ),
+      vertexColors: true,
+      alphaTest: 0.5,
+      roughness: 0.6,
+      metalness: 0.0
+    });
+    
+    this.iceMesh = new THREE.Mesh(iceGeometry, iceMaterial);
+    this.iceMesh.receiveShadow = true;
+    this.updateSeaIce();
+  }
+  
+  /**
+   * Show the sea ice where the surface below is frozen this season
+   */
+  private updateSeaIce(): void {
+    if (!this.iceMesh) return;
+    
+    const colorAttribute = this.iceMesh.geometry.getAttribute('color');
+    for (let i = 0; i < this.iceVertices.length; i++) {
+      colorAttribute.setW(i, this.surfaceFrozen[this.iceVertices[i]]);
+    }
+    colorAttribute.needsUpdate = true;
+  }
+  
+  /**
+   * Chance of each vegetation item growing at a surface vertex, blended
+   * from the biome weights stored in the biome data
+   * @param vertex - Geometry vertex index
+   */
+  getVegetationChances(vertex: number): { item: VegetationItem; probability: number }[] {
+    const data = this.biomeData.get(vertex);
+    return data ? this.getBiomeVegetation(data) : [];
+  }
+  
+  /**
+   * Chance of each vegetation item growing under a blend of biomes
+   * @param data - Biome data holding the blend weights
+   */
+  private getBiomeVegetation(data: BiomeData): { item: VegetationItem; probability: number }[] {
+    const weights: BiomeWeight[] = [];
+    for (const { biome, weight } of data.weights) {
+      const rule = this.biomeTable.get(biome);
+      if (rule) weights.push({ rule, weight });
+    }
+    
+    return this.biomeTable.getVegetation(weights);
+  }
+  
   /**
    * Create atmosphere mesh for the planet
    */
   private createAtmosphere(): void {
-    // Create atmosphere geometry (larger than planet)
+    // The air thins out from sea level up to the top of the atmosphere
+    const surfaceRadius = this.options.radius * (1.0 + this.options.waterLevel);
+    const atmosphereRadius = surfaceRadius * (1.0 + ATMOSPHERE_THICKNESS);
+    
+    // Create atmosphere geometry at the top of the atmosphere
     const atmosphereGeometry = new THREE.IcosahedronGeometry(
-      this.options.radius * 1.25, // 25% larger than planet
+      atmosphereRadius,
       Math.max(2, this.options.resolution - 2) // Lower resolution for atmosphere
     );
     
     // Create atmosphere material
-    const atmosphereMaterial = createAtmosphereMaterial(this.options.atmosphereColor);
+    const atmosphereMaterial = createAtmosphereMaterial(this.options.atmosphereColor, {
+      planetRadius: surfaceRadius,
+      atmosphereRadius
+    });
     
     // Create atmosphere mesh
     this.atmosphereMesh = new THREE.Mesh(atmosphereGeometry, atmosphereMaterial);
   }
   
+  /**
+   * Set the direction the sunlight scattered by the atmosphere comes from
+   * @param direction - Direction towards the sun, in world space
+   */
+  setSunDirection(direction: THREE.Vector3): void {
+    if (this.atmosphereMesh?.material instanceof THREE.ShaderMaterial) {
+      this.atmosphereMesh.material.uniforms.sunDirection.value.copy(direction).normalize();
+    }
+  }
+  
   /**
    * Create vegetation for the planet
    */
@@ -251,25 +957,239 @@ export class Planet {
       this.options.radius * 2.5
     );
     
-    // We'll implement vegetation placement in a separate method
-    // This will be populated with models using the functions from models.ts
+    // Place vegetation now; the models appear once they have loaded
+    this.vegetation = this.placeVegetation();
+    for (const instance of this.vegetation) {
+      this.octree.insert(instance.position);
+    }
+    
+    const references = [...new Set(this.vegetation.map(instance => instance.model))];
+    loadModelReferences(references, this.options.seed)
+      .then(models => this.populateVegetation(models))
+      .catch(error => console.warn('Error creating vegetation:', error));
+  }
+  
+  /**
+   * Scatter vegetation over the surface as blue noise. Each item keeps to
+   * its spacing, height and slope limits and grows as often as the biomes
+   * around it call for; trees also keep between the minimum and maximum
+   * tree heights.
+   */
+  private placeVegetation(): VegetationInstance[] {
+    const random = new Random(this.options.seed + 7001);
+    const { waterLevel, minTreeHeight, maxTreeHeight, vegetationDensity } = this.options;
+    const chancesByVertex = new Map<number, { item: VegetationItem; probability: number }[]>();
+    
+    // Chance of an item growing around a unique vertex
+    const itemChance = (item: VegetationItem, vertex: number): number => {
+      const data = this.surfaceData[vertex];
+      if (!data || data.lakeDepth > 0) return 0;
+      
+      const elevation = this.elevations[vertex];
+      const height = elevation - waterLevel;
+      if (height <= 0 || !canVegetationGrow(item, height, data.slope)) return 0;
+      if (isTreeModel(item.name) && (elevation < minTreeHeight || elevation > maxTreeHeight)) return 0;
+      
+      let chances = chancesByVertex.get(vertex);
+      if (!chances) {
+        chances = this.getBiomeVegetation(data);
+        chancesByVertex.set(vertex, chances);
+      }
+      
+      const probability = chances.find(entry => entry.item === item)?.probability ?? 0;
+      return probability * (item.density ?? DEFAULT_VEGETATION_DENSITY) / FULL_VEGETATION_DENSITY *
+        vegetationDensity;
+    };
+    
+    // The same model with the same spacing is listed by several biomes;
+    // scatter those together as one pattern
+    const groups = new Map<string, { items: VegetationItem[]; minimumDistance: number; maximumDistance: number }>();
+    for (const item of this.biomeTable.rules.flatMap(rule => rule.vegetation ?? [])) {
+      const minimumDistance = item.minimumDistance ?? (isTreeModel(item.name) ? TREE_SPACING : PLANT_SPACING);
+      const maximumDistance = item.maximumDistance ?? minimumDistance * 2;
+      const key = `${item.name}:${minimumDistance}:${maximumDistance}`;
+      const group = groups.get(key);
+      if (group) {
+        group.items.push(item);
+      } else {
+        groups.set(key, { items: [item], minimumDistance, maximumDistance });
+      }
+    }
+    
+    const groupList = [...groups.values()];
+    const scatterItems: ScatterItem[] = groupList.map(({ items, minimumDistance, maximumDistance }) => ({
+      minimumDistance,
+      maximumDistance,
+      chance: vertex => Math.min(1, items.reduce((sum, item) => sum + itemChance(item, vertex), 0))
+    }));
+    
+    const instances: VegetationInstance[] = [];
+    
+    for (const point of scatterOnSphere(this.surfaceGraph, scatterItems, random).points) {
+      // Pick which of the group's items grows here by its share of the chance
+      const { items } = groupList[point.item];
+      const weights = items.map(item => itemChance(item, point.vertex));
+      let pick = random.range(0, weights.reduce((sum, weight) => sum + weight, 0));
+      let item = items[0];
+      for (let i = 0; i < items.length; i++) {
+        item = items[i];
+        pick -= weights[i];
+        if (pick < 0) break;
+      }
+      
+      const surface = this.locateSurface(point);
+      if (!surface) continue;
+      
+      const versions = resolveModel(item.name)?.model.versions ?? 1;
+      const size = isTreeModel(item.name) ? TREE_SIZE : PLANT_SIZE;
+      const instance: VegetationInstance = {
+        model: item.name,
+        version: random.int(0, versions - 1),
+        position: surface.position,
+        normal: surface.normal,
+        rotation: random.range(0, Math.PI * 2),
+        scale: this.options.radius * size * random.range(0.8, 1.2)
+      };
+      
+      // Pick one of the item's colours for each material it recolours
+      if (item.colors) {
+        instance.colors = {};
+        for (const [material, { array }] of Object.entries(item.colors)) {
+          if (array.length > 0) instance.colors[material] = random.pick(array);
+        }
+      }
+      
+      instances.push(instance);
+    }
+    
+    return instances;
+  }
+  
+  /**
+   * Find where a direction from the centre meets the terrain
+   * @param direction - Unit direction
+   * @returns Surface point and face normal, or null if no face was found
+   */
+  private locateSurface(direction: THREE.Vector3): { position: THREE.Vector3; normal: THREE.Vector3 } | null {
+    // Index the face centres on the unit sphere on first use
+    if (!this.faceIndex) {
+      const { positions, vertexMap, edgeLengths } = this.surfaceGraph;
+      this.faceIndex = new Octree<FaceCenter>(new THREE.Vector3(0, 0, 0), 2.5);
+      for (let face = 0; face < vertexMap.length / 3; face++) {
+        const center = new FaceCenter(0, 0, 0, face);
+        for (let corner = 0; corner < 3; corner++) {
+          center.add(positions[vertexMap[face * 3 + corner]]);
+        }
+        this.faceIndex.insert(center.normalize());
+      }
+      this.faceSearchRadius = edgeLengths.reduce((longest, lengths) => Math.max(longest, ...lengths), 0);
+    }
+    
+    let nearest: FaceCenter | null = null;
+    let nearestDistance = Infinity;
+    for (const center of this.faceIndex.querySphere(direction, this.faceSearchRadius)) {
+      const distance = center.distanceTo(direction);
+      if (distance < nearestDistance) {
+        nearest = center;
+        nearestDistance = distance;
+      }
+    }
+    if (!nearest) return null;
+    
+    // Meet the face plane along the direction
+    const positionAttribute = this.geometry.getAttribute('position');
+    const corners = [0, 1, 2].map(corner =>
+      new THREE.Vector3().fromBufferAttribute(positionAttribute, nearest!.face * 3 + corner)
+    );
+    const normal = new THREE.Triangle(corners[0], corners[1], corners[2]).getNormal(new THREE.Vector3());
+    if (normal.dot(corners[0]) < 0) normal.negate();
+    
+    const along = normal.dot(direction);
+    if (along <= 0) return null;
+    const position = new THREE.Vector3().copy(direction).multiplyScalar(normal.dot(corners[0]) / along);
+    
+    return { position, normal };
+  }
+  
+  /**
+   * Draw the loaded models at every placed piece of vegetation, batched
+   * into one instanced mesh per model, version and material
+   * @param models - Loaded collection models, named by model reference and
+   * tagged with version
+   */
+  private populateVegetation(models: THREE.Object3D[]): void {
+    if (this.disposed || !this.vegetationGroup) return;
+    
+    const { templates, versions } = createTemplates(models);
+    
+    const up = new THREE.Vector3(0, 1, 0);
+    const turn = new THREE.Quaternion();
+    const modelInstances: ModelInstance[] = [];
+    
+    for (const instance of this.vegetation) {
+      // Fall back to another version if this one failed to load
+      const loaded = versions.get(instance.model);
+      if (!loaded) continue;
+      const version = loaded.includes(instance.version) ? instance.version : loaded[0];
+      const variant = resolveModel(instance.model)?.variant;
+      
+      const rotation = new THREE.Quaternion()
+        .setFromUnitVectors(up, instance.normal)
+        .multiply(turn.setFromAxisAngle(up, instance.rotation));
+      
+      modelInstances.push({
+        template: `${instance.model}:${version}`,
+        matrix: new THREE.Matrix4().compose(
+          instance.position,
+          rotation,
+          new THREE.Vector3().setScalar(instance.scale)
+        ),
+        colors: instance.colors && Object.fromEntries(
+          Object.entries(instance.colors).map(([material, color]) => [
+            material,
+            variant ? variantColor(variant, material, new THREE.Color(color)) : new THREE.Color(color)
+          ])
+        )
+      });
+    }
+    
+    // The batches hold their own copies of the geometry; the templates
+    // share theirs with the page's model cache
+    const batches = createInstancedBatches(templates, modelInstances);
+    
+    // The swaying materials are shared by the planets on a page, so a
+    // still planet draws with copies the wind does not reach
+    if (!this.options.windSway) {
+      holdStill(batches);
+    }
+    
+    this.vegetationLOD = new VegetationLOD(batches, modelInstances, this.options.radius, this.options.vegetationLOD);
+    this.vegetationGroup.add(this.vegetationLOD.object);
   }
   
   /**
    * Get elevation for a point on the planet
    * @param position - Normalized position vector on unit sphere
+   * @param vertex - Unique vertex at the position, to keep its crater ejecta
    * @returns Elevation value between -0.1 and 1.0
    */
-  private getElevation(position: THREE.Vector3): number {
-    // Get base noise values
-    const terrainNoise = this.noise.getTerrainNoise(position, {
-      continentScale: 0.5,
-      mountainScale: 1.0,
-      hillScale: 2.0
-    });
+  private getElevation(position: THREE.Vector3, vertex: number): number {
+    // Evaluate the elevation graph
+    let elevation = this.elevationGraph.get(position);
+    
+    // Shape continents and mountain chains from plate tectonics
+    if (this.tectonics) {
+      elevation = this.tectonics.apply(position, elevation);
+    }
     
-    // Apply adjustments to create varied terrain
-    let elevation = terrainNoise;
+    // Stamp impact craters
+    if (this.craters) {
+      const crater = this.craters.sample(position);
+      elevation += crater.height;
+      if (this.surfaceEjecta) {
+        this.surfaceEjecta[vertex] = crater.ejecta;
+      }
+    }
     
     // Make oceans deeper
     if (elevation < this.options.waterLevel) {
@@ -277,16 +1197,6 @@ export class Planet {
         Math.pow(this.options.waterLevel - elevation, 1.2) * 0.1;
     }
     
-    // Apply additional noise for small details
-    const detailNoise = this.noise.getFractalNoiseFromVector(
-      position,
-      2, // Fewer octaves for detail
-      0.5,
-      8.0 // Higher frequency
-    ) * 0.05; // Small influence
-    
-    elevation += detailNoise;
-    
     return elevation;
   }
   
@@ -294,145 +1204,94 @@ export class Planet {
    * Get biome data for a point on the planet
    * @param position - Normalized position vector on unit sphere
    * @param elevation - Elevation value at the position
-   * @returns Object with biome type, temperature, and moisture
+   * @param slope - Steepest slope at the position
+   * @param windMoisture - Moisture from the rain shadow pass, if it ran
+   * @returns Blended biome weights and the values they were classified by
    */
   private getBiomeData(
     position: THREE.Vector3, 
-    elevation: number
-  ): { biome: BiomeType, temperature: number, moisture: number } {
+    elevation: number,
+    slope: number,
+    windMoisture?: number
+  ): { weights: BiomeWeight[], sample: BiomeSample } {
     // Get biome noise for temperature and moisture
-    const { temperature, moisture } = this.noise.getBiomeNoise(position);
+    const { temperature, moisture: noiseMoisture } = this.noise.getBiomeNoise(position);
+    
+    // Prefer moisture brought by the winds, roughened by a little noise
+    let moisture = noiseMoisture;
+    if (windMoisture !== undefined && this.options.rainShadow) {
+      const { variation } = { ...DEFAULT_RAIN_SHADOW_OPTIONS, ...this.options.rainShadow };
+      moisture = windMoisture + (noiseMoisture - windMoisture) * variation;
+    }
+    
+    // Base temperature from latitude, varied by noise
+    const climateTemperature = latitudeTemperature(
+      position.y,
+      this.options.axialTilt,
+      this.options.equatorTemperature,
+      this.options.poleTemperature
+    ) + (temperature - 0.5) * TEMPERATURE_VARIATION;
     
     // Adjust temperature based on elevation (higher = colder)
-    const adjustedTemperature = temperature - (elevation > this.options.waterLevel ? 
+    const adjustedTemperature = climateTemperature - (elevation > this.options.waterLevel ? 
       (elevation - this.options.waterLevel) * 0.7 : 0);
     
-    // Determine biome type based on elevation, temperature and moisture
-    let biome: BiomeType;
-    
-    if (elevation <= this.options.waterLevel) {
-      biome = BiomeType.OCEAN;
-    } else if (elevation < this.options.waterLevel + 0.01) {
-      biome = BiomeType.BEACH;
-    } else if (adjustedTemperature > 0.7) {
-      if (moisture < 0.3) {
-        biome = BiomeType.DESERT;
-      } else if (moisture < 0.6) {
-        biome = BiomeType.SAVANNA;
-      } else {
-        biome = BiomeType.RAINFOREST;
-      }
-    } else if (adjustedTemperature > 0.4) {
-      if (moisture < 0.3) {
-        biome = BiomeType.GRASSLAND;
-      } else if (moisture < 0.7) {
-        biome = BiomeType.FOREST;
-      } else {
-        biome = BiomeType.SWAMP;
-      }
-    } else if (adjustedTemperature > 0.2) {
-      if (moisture < 0.5) {
-        biome = BiomeType.GRASSLAND;
-      } else {
-        biome = BiomeType.FOREST;
-      }
-    } else {
-      if (elevation > 0.7) {
-        biome = BiomeType.SNOW;
-      } else if (moisture < 0.4) {
-        biome = BiomeType.TUNDRA;
-      } else {
-        biome = BiomeType.MOUNTAINS;
-      }
-    }
+    // Classify with the biome table
+    const sample: BiomeSample = {
+      temperature: adjustedTemperature,
+      moisture,
+      elevation: elevation - this.options.waterLevel,
+      slope
+    };
+    
+    const weights = this.biomeTable.weigh(
+      sample,
+      this.options.biomeTransitionWidth,
+      this.options.biomeBlendCount
+    );
     
-    return { biome, temperature: adjustedTemperature, moisture };
+    return { weights, sample };
   }
   
   /**
-   * Get color for a biome
-   * @param biome - Biome type
-   * @param elevation - Elevation value
-   * @param temperature - Temperature value
-   * @param moisture - Moisture value
+   * Get color for a blend of biomes
+   * @param weights - Biome weights, strongest first
+   * @param sample - Values at the point (elevation relative to the water level)
+   * @param sediment - Net erosion deposit (negative where material was removed)
+   * @param ejecta - Fresh crater ejecta cover (0-1)
+   * @param variationSample - Values the colour noise is keyed on
    * @returns THREE.Color object
    */
   private getBiomeColor(
-    biome: BiomeType, 
-    elevation: number, 
-    temperature: number, 
-    moisture: number
+    weights: BiomeWeight[],
+    sample: BiomeSample,
+    sediment: number = 0,
+    ejecta: number = 0,
+    variationSample: BiomeSample = sample
   ): THREE.Color {
-    const color = new THREE.Color();
-    
-    switch (biome) {
-      case BiomeType.OCEAN:
-        // Ocean color (handled by separate mesh)
-        color.copy(this.options.waterColor).multiplyScalar(0.7);
-        break;
-        
-      case BiomeType.BEACH:
-        // Sandy beach
-        color.set(0xe0d8a8);
-        break;
-        
-      case BiomeType.DESERT:
-        // Desert - varies from yellow to red based on temperature
-        color.set(0xe6c178).lerp(new THREE.Color(0xb2824d), temperature - 0.7);
-        break;
-        
-      case BiomeType.GRASSLAND:
-        // Grassland - varies from light to dark green based on moisture
-        color.set(0xbfd064).lerp(new THREE.Color(0x82a854), moisture);
-        break;
-        
-      case BiomeType.FOREST:
-        // Forest - varies from light to dark based on moisture
-        color.set(0x4a873d).lerp(new THREE.Color(0x1e5631), moisture);
-        break;
-        
-      case BiomeType.MOUNTAINS:
-        // Mountains - mix of gray and brown
-        const mountainHeight = (elevation - this.options.waterLevel) / (1.0 - this.options.waterLevel);
-        color.copy(this.options.mountainColor).lerp(new THREE.Color(0x6b6b6b), mountainHeight);
-        break;
-        
-      case BiomeType.SNOW:
-        // Snow - white with a hint of blue
-        color.copy(this.options.snowColor).lerp(new THREE.Color(0xd5f0ff), moisture);
-        break;
-        
-      case BiomeType.TUNDRA:
-        // Tundra - mix of light brown and gray
-        color.set(0xa09a80).lerp(new THREE.Color(0x969682), moisture);
-        break;
-        
-      case BiomeType.RAINFOREST:
-        // Rainforest - deep green
-        color.set(0x2e6e41).lerp(new THREE.Color(0x124124), moisture);
-        break;
-        
-      case BiomeType.SAVANNA:
-        // Savanna - yellow-green
-        color.set(0xccc880).lerp(new THREE.Color(0x9da855), moisture);
-        break;
-        
-      case BiomeType.SWAMP:
-        // Swamp - dark green-brown
-        color.set(0x4d6b50).lerp(new THREE.Color(0x2d4030), moisture);
-        break;
-        
-      default:
-        // Default is land color
-        color.copy(this.options.landColor);
-    }
+    const { elevation } = sample;
+    const { temperature, moisture } = variationSample;
+    const color = this.biomeTable.getBlendedColor(weights, sample);
     
     // Add some variation based on noise
     const variation = this.noise.getNoiseFromVector(
-      new THREE.Vector3(temperature * 10, moisture * 10, elevation * 10),
+      new THREE.Vector3(temperature * 10, moisture * 10, (variationSample.elevation + this.options.waterLevel) * 10),
       10.0
     ) * 0.1;
     
+    // Tint sediment fans and deltas left by erosion
+    const dominant = weights[0].rule.id;
+    const frozen = dominant === BiomeType.SNOW || dominant === BiomeType.ICE;
+    if (sediment > 0 && elevation > 0 && !frozen) {
+      const amount = Math.min(1, sediment / SEDIMENT_TINT_DEPTH) * 0.6;
+      color.lerp(SEDIMENT_COLOR, amount);
+    }
+    
+    // Brighten fresh crater ejecta
+    if (ejecta > 0) {
+      color.lerp(EJECTA_COLOR, Math.min(1, ejecta) * 0.7);
+    }
+    
     color.r = Math.max(0, Math.min(1, color.r + variation));
     color.g = Math.max(0, Math.min(1, color.g + variation));
     color.b = Math.max(0, Math.min(1, color.b + variation));
@@ -443,12 +1302,34 @@ export class Planet {
   /**
    * Update the planet (for animation)
    * @param deltaTime - Time since last update in seconds
+   * @param camera - Camera the planet is viewed from, to pick the
+   * vegetation detail by
    */
-  update(deltaTime: number): void {
+  update(deltaTime: number, camera?: THREE.Camera): void {
     // Update ocean caustics if ocean exists
     if (this.oceanMesh && this.oceanMesh.material instanceof PlanetMaterialWithCaustics) {
       this.oceanMesh.material.update(deltaTime);
     }
+    
+    // Blow the wind through the vegetation
+    if (this.options.windSway && this.vegetationGroup) {
+      advanceWind(this, deltaTime);
+    }
+    
+    // Draw distant vegetation in less detail
+    if (camera && this.vegetationLOD) {
+      this.vegetationLOD.update(camera);
+    }
+    
+    // Advance the seasons, recolouring once they have moved far enough
+    if (this.seasons) {
+      this.season = (this.season + deltaTime / this.seasons.yearLength) % 1;
+      
+      const moved = Math.abs(this.season - this.coloredSeason);
+      if (Math.min(moved, 1 - moved) >= SEASON_RECOLOR_STEP) {
+        this.applySeason();
+      }
+    }
   }
   
   /**
@@ -464,6 +1345,16 @@ export class Planet {
       scene.add(this.oceanMesh);
     }
     
+    // Add sea ice if it exists
+    if (this.iceMesh) {
+      scene.add(this.iceMesh);
+    }
+    
+    // Add lakes and rivers if they exist
+    if (this.waterGroup) {
+      scene.add(this.waterGroup);
+    }
+    
     // Add atmosphere if it exists
     if (this.atmosphereMesh) {
       scene.add(this.atmosphereMesh);
@@ -488,6 +1379,16 @@ export class Planet {
       scene.remove(this.oceanMesh);
     }
     
+    // Remove sea ice if it exists
+    if (this.iceMesh) {
+      scene.remove(this.iceMesh);
+    }
+    
+    // Remove lakes and rivers if they exist
+    if (this.waterGroup) {
+      scene.remove(this.waterGroup);
+    }
+    
     // Remove atmosphere if it exists
     if (this.atmosphereMesh) {
       scene.remove(this.atmosphereMesh);
@@ -503,6 +1404,8 @@ export class Planet {
    * Clean up resources
    */
   dispose(): void {
+    this.disposed = true;
+    
     // Dispose of geometries
     this.geometry.dispose();
     
@@ -516,6 +1419,35 @@ export class Planet {
       }
     }
     
+    // Dispose of sea ice geometry and material
+    if (this.iceMesh) {
+      this.iceMesh.geometry.dispose();
+      if (this.iceMesh.material instanceof THREE.Material) {
+        this.iceMesh.material.dispose();
+      }
+    }
+    
+    // Dispose of lake and river geometries and materials
+    if (this.waterGroup) {
+      this.waterGroup.traverse(object => {
+        if (object instanceof THREE.Mesh) {
+          object.geometry.dispose();
+          object.material.dispose();
+        }
+      });
+    }
+    
+    // Dispose of vegetation batches, leaving the materials they share with
+    // the page's model cache to the other planets
+    this.vegetationLOD?.dispose();
+    if (this.vegetationGroup) {
+      this.vegetationGroup.traverse(object => {
+        if (object instanceof THREE.InstancedMesh) {
+          disposeInstancedBatch(object);
+        }
+      });
+    }
+    
     // Dispose of atmosphere geometry and material
     if (this.atmosphereMesh) {
       this.atmosphereMesh.geometry.dispose();
@@ -526,4 +1458,16 @@ export class Planet {
       }
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Centre of a geometry face, pointing at the face it belongs to
+ */
+class FaceCenter extends THREE.Vector3 {
+  face: number;
+  
+  constructor(x: number = 0, y: number = 0, z: number = 0, face: number = -1) {
+    super(x, y, z);
+    this.face = face;
+  }
+}
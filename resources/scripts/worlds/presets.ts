@@ -1,10 +1,14 @@
 import { type BiomeOptions } from "./biome";
+import { type CraterOptions } from "./terrain/craters";
 
 export interface PlanetOptions {
   biome: {
     preset: string;
   };
   material?: "normal" | "caustics";
+  hasOcean?: boolean;
+  hasAtmosphere?: boolean;
+  craters?: Partial<CraterOptions>;
 }
 
 const beachBiome: BiomeOptions = {
@@ -68,6 +72,21 @@ const beachBiome: BiomeOptions = {
           raise: 0.01,
         },
       },
+      {
+        name: "Coral",
+        density: 40,
+        minimumHeight: -0.6,
+        maximumHeight: -0.25,
+        colors: {
+          Coral: { array: [0xe0745c, 0xf2a65a, 0xc9576b] },
+        },
+      },
+      {
+        name: "Seagrass",
+        density: 25,
+        minimumHeight: -0.5,
+        maximumHeight: -0.22,
+      },
     ],
   },
 };
@@ -99,6 +118,15 @@ const forestBiome: BiomeOptions = {
     [1.0, 0x006622],
   ],
 
+  cliffColors: [
+    [-0.5, 0x4a3f33],
+    [1.0, 0x6b645a],
+  ],
+  cliffSlope: {
+    min: 0.03,
+    max: 0.08,
+  },
+
   seaColors: [
     [-1, 0x000066],
     [-0.52, 0x0000aa],
@@ -125,6 +153,22 @@ const forestBiome: BiomeOptions = {
         name: "BirchTree",
         density: 20,
       },
+      {
+        name: "Kelp",
+        density: 20,
+        maximumHeight: -0.5,
+      },
+      {
+        name: "Seagrass",
+        density: 25,
+        minimumHeight: -0.5,
+        maximumHeight: -0.22,
+      },
+      {
+        name: "Rock",
+        density: 8,
+        maximumHeight: -0.3,
+      },
     ],
   },
 };
@@ -156,6 +200,15 @@ const snowForestBiome: BiomeOptions = {
     [1.0, 0xffffff],
   ],
 
+  cliffColors: [
+    [-0.5, 0x5a5560],
+    [1.0, 0x7a7882],
+  ],
+  cliffSlope: {
+    min: 0.04,
+    max: 0.1,
+  },
+
   seaColors: [
     [-1, 0x8899cc],
     [-0.52, 0xaaccff],
@@ -182,14 +235,61 @@ const snowForestBiome: BiomeOptions = {
         name: "BirchTree_Snow",
         density: 20,
       },
+      {
+        name: "Kelp",
+        density: 10,
+        maximumHeight: -0.5,
+      },
+      {
+        name: "Rock",
+        density: 10,
+        maximumHeight: -0.3,
+      },
     ],
   },
 };
 
+const moonBiome: BiomeOptions = {
+  preset: "moon",
+  
+  noise: {
+    min: -0.02,
+    max: 0.02,
+    octaves: 5,
+    lacunarity: 2.0,
+    gain: {
+      min: 0.3,
+      max: 0.6,
+      scale: 2,
+    },
+    warp: 0.1,
+    scale: 1.5,
+    power: 1.0,
+  },
+
+  colors: [
+    [-1.0, 0x3f3c39],
+    [-0.3, 0x5a5651],
+    [0.3, 0x8a857e],
+    [1.0, 0xa39e96],
+  ],
+
+  seaColors: [
+    [-1, 0x222222],
+    [-0.1, 0x333333],
+  ],
+  seaNoise: {
+    min: 0,
+    max: 0,
+    scale: 1,
+  },
+};
+
 export const biomePresets: Record<string, BiomeOptions> = {
   beach: beachBiome,
   forest: forestBiome,
   snowForest: snowForestBiome,
+  moon: moonBiome,
 };
 
 const beachPlanet: PlanetOptions = {
@@ -214,8 +314,23 @@ const snowForestPlanet: PlanetOptions = {
   },
 };
 
+const moonPlanet: PlanetOptions = {
+  biome: {
+    preset: "moon",
+  },
+
+  hasOcean: false,
+  hasAtmosphere: false,
+
+  craters: {
+    count: 150,
+    depthRatio: 0.12,
+  },
+};
+
 export const planetPresets: Record<string, PlanetOptions> = {
   beach: beachPlanet,
   forest: forestPlanet,
   snowForest: snowForestPlanet,
+  moon: moonPlanet,
 }; 
\ No newline at end of file
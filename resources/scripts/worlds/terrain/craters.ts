@@ -0,0 +1,232 @@
+import * as THREE from 'three';
+import { Random } from '../../utils/random';
+
+/**
+ * Crater configuration
+ */
+export interface CraterOptions {
+  count: number;
+  // Angular radius range of the craters (radians)
+  minRadius: number;
+  maxRadius: number;
+  // Power law exponent: the number of craters larger than r falls off as r^-sizeExponent
+  sizeExponent: number;
+  // Bowl depth relative to the crater radius
+  depthRatio: number;
+  // Rim height and width relative to the bowl depth and crater radius
+  rimHeight: number;
+  rimWidth: number;
+  // Craters larger than this (radians) get a central peak; a peakHeight of 0 disables them
+  centralPeakRadius: number;
+  peakHeight: number;
+  // Share of craters with ejecta rays, how many and how far (in crater radii)
+  rayChance: number;
+  rayCount: number;
+  rayLength: number;
+  // Younger craters wipe out the older terrain they land on
+  ageOrdering: boolean;
+}
+
+/**
+ * Default crater options. Heights are in planet elevation units.
+ */
+export const DEFAULT_CRATER_OPTIONS: CraterOptions = {
+  count: 120,
+  minRadius: 0.02,
+  maxRadius: 0.35,
+  sizeExponent: 1.8,
+  depthRatio: 0.25,
+  rimHeight: 0.3,
+  rimWidth: 0.25,
+  centralPeakRadius: 0.12,
+  peakHeight: 0.5,
+  rayChance: 0.15,
+  rayCount: 12,
+  rayLength: 3,
+  ageOrdering: true
+};
+
+/**
+ * A single impact crater
+ */
+export interface Crater {
+  center: THREE.Vector3;
+  // Tangent axis used to measure ray angles around the centre
+  tangent: THREE.Vector3;
+  radius: number;
+  depth: number;
+  // 0 for the oldest crater, 1 for the youngest
+  age: number;
+  hasPeak: boolean;
+  rayPhase: number;
+  rayStrength: number;
+}
+
+/**
+ * Result of sampling the crater field at a point
+ */
+export interface CraterSample {
+  // Elevation offset from all craters
+  height: number;
+  // Fresh ejecta cover (0-1), useful to brighten the surface
+  ejecta: number;
+}
+
+/**
+ * Seeded set of impact craters on the unit sphere, stamped as rim, bowl,
+ * central peak and ejecta ray profiles
+ */
+export class CraterField {
+  options: CraterOptions;
+  craters: Crater[] = [];
+  private minCos: number[] = [];
+
+  // Scratch vectors to avoid allocations per sample
+  private bitangent = new THREE.Vector3();
+  private offset = new THREE.Vector3();
+
+  /**
+   * @param seed - Seed for crater placement and sizes
+   * @param options - Crater configuration
+   */
+  constructor(seed: number, options: Partial<CraterOptions> = {}) {
+    this.options = { ...DEFAULT_CRATER_OPTIONS, ...options };
+
+    const random = new Random(seed + 9161);
+    const { count, minRadius, maxRadius, sizeExponent, depthRatio, centralPeakRadius, rayChance } = this.options;
+
+    for (let i = 0; i < count; i++) {
+      // Uniform direction on the sphere
+      const z = random.range(-1, 1);
+      const phi = random.range(0, Math.PI * 2);
+      const r = Math.sqrt(1 - z * z);
+      const center = new THREE.Vector3(r * Math.cos(phi), r * Math.sin(phi), z);
+
+      const tangent = new THREE.Vector3(0, 1, 0).cross(center);
+      if (tangent.lengthSq() < 1e-6) tangent.set(1, 0, 0);
+      tangent.normalize();
+
+      const radius = sampleRadius(random.value(), minRadius, maxRadius, sizeExponent);
+
+      this.craters.push({
+        center,
+        tangent,
+        radius,
+        depth: radius * depthRatio,
+        age: random.value(),
+        hasPeak: radius >= centralPeakRadius,
+        rayPhase: random.range(0, Math.PI * 2),
+        rayStrength: random.value() < rayChance ? random.range(0.5, 1) : 0
+      });
+    }
+
+    // Stamp the oldest craters first so younger ones land on top
+    if (this.options.ageOrdering) {
+      this.craters.sort((a, b) => a.age - b.age);
+    }
+
+    // Cosine of the largest angle each crater can affect, for early outs
+    const rimReach = 1 + this.options.rimWidth * 4;
+    this.minCos = this.craters.map(crater => {
+      const reach = crater.rayStrength > 0 ? Math.max(this.options.rayLength, rimReach) : rimReach;
+      return Math.cos(Math.min(Math.PI, crater.radius * reach));
+    });
+  }
+
+  /**
+   * Sample the crater field at a point
+   * @param position - Normalized position vector on unit sphere
+   */
+  sample(position: THREE.Vector3): CraterSample {
+    let height = 0;
+    let ejecta = 0;
+
+    for (let i = 0; i < this.craters.length; i++) {
+      const cosAngle = position.dot(this.craters[i].center);
+      if (cosAngle < this.minCos[i]) continue;
+
+      const crater = this.craters[i];
+      const distance = Math.acos(Math.min(1, cosAngle)) / crater.radius;
+
+      // A younger crater erases the older relief inside its rim
+      if (this.options.ageOrdering) {
+        const erase = 1 - THREE.MathUtils.smoothstep(distance, 0.7, 1.1);
+        height *= 1 - erase;
+        ejecta *= 1 - erase;
+      }
+
+      height += this.profile(crater, distance);
+
+      if (crater.rayStrength > 0 && distance > 1) {
+        const rays = this.rays(crater, position, distance);
+        height += rays * crater.depth * 0.1;
+        ejecta = Math.max(ejecta, rays);
+      }
+    }
+
+    return { height, ejecta };
+  }
+
+  /**
+   * Combine a base elevation with the crater field
+   * @param position - Normalized position vector on unit sphere
+   * @param elevation - Elevation before cratering
+   */
+  apply(position: THREE.Vector3, elevation: number): number {
+    return elevation + this.sample(position).height;
+  }
+
+  /**
+   * Radial crater profile: parabolic bowl with a flattened floor, a raised
+   * rim and an optional central peak
+   * @param distance - Distance from the centre in crater radii
+   */
+  private profile(crater: Crater, distance: number): number {
+    const { rimHeight, rimWidth, peakHeight } = this.options;
+    const { depth } = crater;
+
+    // Bowl from -depth at the centre up to the rim, with a flat floor
+    const bowl = Math.max(distance * distance - 1, -0.8);
+    const inside = distance < 1 ? bowl * depth : 0;
+
+    // Rim: steep inner wall, gentle outer slope
+    const rimDistance = (distance - 1) / (distance < 1 ? rimWidth * 0.5 : rimWidth * 1.5);
+    const rim = rimHeight * depth * Math.exp(-rimDistance * rimDistance);
+
+    // Central peak for complex craters
+    const peak = crater.hasPeak
+      ? peakHeight * depth * Math.exp(-(distance * distance) / 0.02)
+      : 0;
+
+    return inside + rim + peak;
+  }
+
+  /**
+   * Strength of the ejecta rays around a crater (0-1)
+   */
+  private rays(crater: Crater, position: THREE.Vector3, distance: number): number {
+    const { rayCount, rayLength } = this.options;
+    if (distance >= rayLength) return 0;
+
+    // Angle around the crater centre in its tangent plane
+    const offset = this.offset.copy(position).addScaledVector(crater.center, -position.dot(crater.center));
+    const bitangent = this.bitangent.crossVectors(crater.center, crater.tangent);
+    const angle = Math.atan2(offset.dot(bitangent), offset.dot(crater.tangent));
+
+    // Thin spokes of uneven brightness fading with distance
+    const spoke = Math.pow(Math.max(0, Math.cos(angle * rayCount + crater.rayPhase)), 16);
+    const variation = 0.5 + 0.5 * Math.sin(angle * 3 + crater.rayPhase * 2);
+    const fade = 1 - THREE.MathUtils.smoothstep(distance, 1, rayLength);
+
+    return spoke * variation * fade * crater.rayStrength;
+  }
+}
+
+/**
+ * Sample a truncated power law between min and max
+ * @param u - Uniform random value in [0, 1)
+ */
+function sampleRadius(u: number, min: number, max: number, exponent: number): number {
+  const ratio = Math.pow(min / max, exponent);
+  return min * Math.pow(1 - u * (1 - ratio), -1 / exponent);
+}
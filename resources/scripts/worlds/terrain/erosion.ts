@@ -0,0 +1,200 @@
+import { Random } from '../../utils/random';
+import type { SphereGraph } from '../helper/sphere-graph';
+
+/**
+ * Erosion configuration
+ */
+export interface ErosionOptions {
+  // Number of simulated rain droplets
+  hydraulicIterations: number;
+  // Number of full talus relaxation passes
+  thermalIterations: number;
+  maxDropletLifetime: number;
+  sedimentCapacity: number;
+  minSedimentCapacity: number;
+  erodeSpeed: number;
+  depositSpeed: number;
+  evaporation: number;
+  gravity: number;
+  // Slope (height / arc length) above which material slides downhill
+  talusSlope: number;
+  thermalRate: number;
+}
+
+/**
+ * Default erosion options
+ */
+export const DEFAULT_EROSION_OPTIONS: ErosionOptions = {
+  hydraulicIterations: 20000,
+  thermalIterations: 10,
+  maxDropletLifetime: 30,
+  sedimentCapacity: 2,
+  minSedimentCapacity: 0.0005,
+  erodeSpeed: 0.2,
+  depositSpeed: 0.3,
+  evaporation: 0.02,
+  gravity: 4,
+  talusSlope: 0.8,
+  thermalRate: 0.5
+};
+
+/**
+ * Per-vertex erosion result (indexed by unique graph vertex)
+ */
+export interface ErosionResult {
+  // Total material removed from each vertex
+  erosion: Float32Array;
+  // Total material deposited on each vertex
+  deposition: Float32Array;
+}
+
+/**
+ * Run hydraulic (droplet) and thermal (talus) erosion over the elevation
+ * field of a sphere graph. Elevations are modified in place.
+ * @param graph - Vertex adjacency graph
+ * @param elevations - Elevation per unique vertex
+ * @param waterLevel - Droplets reaching this level drop their sediment
+ * @param seed - Seed for droplet placement
+ * @param options - Erosion configuration
+ */
+export function erodeTerrain(
+  graph: SphereGraph,
+  elevations: Float32Array,
+  waterLevel: number,
+  seed: number,
+  options: Partial<ErosionOptions> = {}
+): ErosionResult {
+  const settings = { ...DEFAULT_EROSION_OPTIONS, ...options };
+  const result: ErosionResult = {
+    erosion: new Float32Array(elevations.length),
+    deposition: new Float32Array(elevations.length)
+  };
+
+  runHydraulicErosion(graph, elevations, waterLevel, new Random(seed + 4242), settings, result);
+  runThermalErosion(graph, elevations, settings, result);
+
+  return result;
+}
+
+/**
+ * Simulate droplets running downhill, picking up sediment on steep ground
+ * and dropping it where they slow down, in pits and at the coast
+ */
+function runHydraulicErosion(
+  graph: SphereGraph,
+  elevations: Float32Array,
+  waterLevel: number,
+  random: Random,
+  settings: ErosionOptions,
+  result: ErosionResult
+): void {
+  const vertexCount = elevations.length;
+
+  const deposit = (vertex: number, amount: number) => {
+    elevations[vertex] += amount;
+    result.deposition[vertex] += amount;
+  };
+
+  // Erode from the vertex and, more gently, its neighbours to avoid spikes
+  const erode = (vertex: number, amount: number) => {
+    const neighbors = graph.neighbors[vertex];
+    const shared = (amount * 0.5) / neighbors.length;
+
+    elevations[vertex] -= amount * 0.5;
+    result.erosion[vertex] += amount * 0.5;
+
+    for (const neighbor of neighbors) {
+      elevations[neighbor] -= shared;
+      result.erosion[neighbor] += shared;
+    }
+  };
+
+  for (let iteration = 0; iteration < settings.hydraulicIterations; iteration++) {
+    let vertex = random.int(0, vertexCount - 1);
+
+    // Rain only matters on land
+    if (elevations[vertex] <= waterLevel) continue;
+
+    let speed = 1;
+    let water = 1;
+    let sediment = 0;
+
+    for (let step = 0; step < settings.maxDropletLifetime; step++) {
+      // Flow towards the lowest neighbour
+      const neighbors = graph.neighbors[vertex];
+      let next = -1;
+      let lowest = elevations[vertex];
+      for (const neighbor of neighbors) {
+        if (elevations[neighbor] < lowest) {
+          lowest = elevations[neighbor];
+          next = neighbor;
+        }
+      }
+
+      // Stuck in a pit: fill it with what we carry
+      if (next === -1) {
+        break;
+      }
+
+      const drop = elevations[vertex] - lowest;
+      const capacity = Math.max(drop, settings.minSedimentCapacity) *
+        speed * water * settings.sedimentCapacity;
+
+      if (sediment > capacity) {
+        // Too much load: drop the excess
+        const amount = (sediment - capacity) * settings.depositSpeed;
+        deposit(vertex, amount);
+        sediment -= amount;
+      } else {
+        // Pick up material, never digging below the next vertex
+        const amount = Math.min((capacity - sediment) * settings.erodeSpeed, drop);
+        erode(vertex, amount);
+        sediment += amount;
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed + drop * settings.gravity));
+      water *= 1 - settings.evaporation;
+      vertex = next;
+
+      // Reached the sea: build a delta / sediment fan
+      if (elevations[vertex] <= waterLevel) {
+        break;
+      }
+    }
+
+    // Drop whatever is still carried where the droplet ended
+    deposit(vertex, sediment);
+  }
+}
+
+/**
+ * Let material slide down slopes steeper than the talus slope
+ */
+function runThermalErosion(
+  graph: SphereGraph,
+  elevations: Float32Array,
+  settings: ErosionOptions,
+  result: ErosionResult
+): void {
+  for (let iteration = 0; iteration < settings.thermalIterations; iteration++) {
+    for (let vertex = 0; vertex < elevations.length; vertex++) {
+      const neighbors = graph.neighbors[vertex];
+      const lengths = graph.edgeLengths[vertex];
+
+      for (let i = 0; i < neighbors.length; i++) {
+        const neighbor = neighbors[i];
+        const difference = elevations[vertex] - elevations[neighbor];
+        const excess = difference - settings.talusSlope * lengths[i];
+
+        if (excess <= 0) continue;
+
+        // Move half the excess (scaled by rate) so both settle at the talus slope
+        const amount = excess * 0.5 * settings.thermalRate;
+        elevations[vertex] -= amount;
+        elevations[neighbor] += amount;
+        result.erosion[vertex] += amount;
+        result.deposition[neighbor] += amount;
+      }
+    }
+  }
+}
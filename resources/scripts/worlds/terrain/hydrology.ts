@@ -0,0 +1,254 @@
+import type { SphereGraph } from '../helper/sphere-graph';
+
+/**
+ * Hydrology configuration
+ */
+export interface HydrologyOptions {
+  // Drainage area (fraction of the planet surface) needed to form a river
+  riverThreshold: number;
+  // Maximum depth carved into the terrain by the largest rivers
+  carveDepth: number;
+  // Minimum fill depth for a depression to count as a lake
+  lakeMinDepth: number;
+}
+
+/**
+ * Default hydrology options
+ */
+export const DEFAULT_HYDROLOGY_OPTIONS: HydrologyOptions = {
+  riverThreshold: 0.002,
+  carveDepth: 0.01,
+  lakeMinDepth: 0.002
+};
+
+/**
+ * Per-vertex hydrology result (indexed by unique graph vertex)
+ */
+export interface HydrologyResult {
+  // Depth of lake water above the terrain (0 where there is no lake)
+  lakeDepth: Float32Array;
+  // Downstream vertex, or -1 for the sea and other outlets
+  flowDirection: Int32Array;
+  // Upstream drainage area as a fraction of the planet surface
+  accumulation: Float32Array;
+  // Depth carved by rivers
+  carved: Float32Array;
+  // River courses as vertex indices, from source to mouth or confluence
+  rivers: number[][];
+}
+
+// Slope added across filled depressions so water can always drain out
+const FILL_EPSILON = 1e-6;
+
+/**
+ * Route water over the elevation field of a sphere graph. Depressions are
+ * filled into lakes, flow is accumulated downhill and channels are carved
+ * where enough water collects. Elevations are modified in place where
+ * rivers cut into the ground; lake beds keep their height, with the water
+ * above them in `lakeDepth`.
+ * @param graph - Vertex adjacency graph
+ * @param elevations - Elevation per unique vertex
+ * @param waterLevel - Vertices at or below this level drain into the sea
+ * @param options - Hydrology configuration
+ */
+export function computeHydrology(
+  graph: SphereGraph,
+  elevations: Float32Array,
+  waterLevel: number,
+  options: Partial<HydrologyOptions> = {}
+): HydrologyResult {
+  const settings = { ...DEFAULT_HYDROLOGY_OPTIONS, ...options };
+  const vertexCount = elevations.length;
+
+  const filled = new Float32Array(elevations);
+  const flowDirection = new Int32Array(vertexCount).fill(-1);
+  const visited = new Uint8Array(vertexCount);
+  const order: number[] = [];
+  const queue = new MinHeap();
+
+  // Priority flood from the sea. Every vertex drains into the vertex it was
+  // reached from, so flow directions form a tree rooted in the ocean.
+  for (let v = 0; v < vertexCount; v++) {
+    if (elevations[v] <= waterLevel) {
+      visited[v] = 1;
+      queue.push(v, elevations[v]);
+    }
+  }
+
+  // A planet without sea still needs an outlet
+  if (queue.size === 0) {
+    let lowest = 0;
+    for (let v = 1; v < vertexCount; v++) {
+      if (elevations[v] < elevations[lowest]) lowest = v;
+    }
+    visited[lowest] = 1;
+    queue.push(lowest, elevations[lowest]);
+  }
+
+  while (queue.size > 0) {
+    const current = queue.pop();
+    order.push(current);
+
+    for (const neighbor of graph.neighbors[current]) {
+      if (visited[neighbor]) continue;
+      visited[neighbor] = 1;
+
+      filled[neighbor] = Math.max(elevations[neighbor], filled[current] + FILL_EPSILON);
+      flowDirection[neighbor] = current;
+      queue.push(neighbor, filled[neighbor]);
+    }
+  }
+
+  // Accumulate drainage area from the highest vertices down
+  const accumulation = new Float32Array(vertexCount);
+  const area = 1 / vertexCount;
+  for (let i = order.length - 1; i >= 0; i--) {
+    const v = order[i];
+    accumulation[v] += area;
+    if (flowDirection[v] !== -1) {
+      accumulation[flowDirection[v]] += accumulation[v];
+    }
+  }
+
+  // Fill lakes up to a flat water surface
+  const lakeDepth = new Float32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) {
+    const depth = filled[v] - elevations[v];
+    if (elevations[v] > waterLevel && depth >= settings.lakeMinDepth) {
+      lakeDepth[v] = depth;
+    }
+  }
+
+  // River vertices: enough drainage, on land and not inside a lake
+  const river = new Uint8Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) {
+    river[v] = accumulation[v] >= settings.riverThreshold &&
+      lakeDepth[v] === 0 &&
+      elevations[v] > waterLevel ? 1 : 0;
+  }
+
+  // Carve channels, deeper for larger rivers but never below the sea
+  const carved = new Float32Array(vertexCount);
+  for (let v = 0; v < vertexCount; v++) {
+    if (!river[v]) continue;
+
+    const strength = Math.min(1, 0.25 + Math.log2(accumulation[v] / settings.riverThreshold) / 4);
+    const depth = Math.min(settings.carveDepth * strength, elevations[v] - waterLevel);
+    if (depth > 0) {
+      elevations[v] -= depth;
+      carved[v] = depth;
+    }
+  }
+
+  return {
+    lakeDepth,
+    flowDirection,
+    accumulation,
+    carved,
+    rivers: traceRivers()
+  };
+
+  /**
+   * Follow each river from its source down to the sea, a lake or the
+   * river it joins
+   */
+  function traceRivers(): number[][] {
+    // A source is a river vertex with no river flowing into it
+    const hasRiverInflow = new Uint8Array(vertexCount);
+    for (let v = 0; v < vertexCount; v++) {
+      if (river[v] && flowDirection[v] !== -1) {
+        hasRiverInflow[flowDirection[v]] = 1;
+      }
+    }
+
+    const traced = new Uint8Array(vertexCount);
+    const rivers: number[][] = [];
+
+    for (let source = 0; source < vertexCount; source++) {
+      if (!river[source] || hasRiverInflow[source]) continue;
+
+      const course = [source];
+      let v = source;
+      traced[v] = 1;
+
+      while (flowDirection[v] !== -1) {
+        v = flowDirection[v];
+        course.push(v);
+
+        // Stop at the mouth, at a lake, or where we join a traced river
+        if (!river[v] || traced[v]) break;
+        traced[v] = 1;
+      }
+
+      if (course.length > 1) {
+        rivers.push(course);
+      }
+    }
+
+    return rivers;
+  }
+}
+
+/**
+ * Binary min-heap of vertex indices keyed by height
+ */
+class MinHeap {
+  private items: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, key: number): void {
+    this.items.push(item);
+    this.keys.push(key);
+
+    // Sift up
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.items[i] = this.items[parent];
+      this.keys[i] = this.keys[parent];
+      i = parent;
+    }
+    this.items[i] = item;
+    this.keys[i] = key;
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop() as number;
+    const lastKey = this.keys.pop() as number;
+
+    if (this.items.length > 0) {
+      // Sift down
+      let i = 0;
+      const length = this.items.length;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        let smallestKey = lastKey;
+
+        if (left < length && this.keys[left] < smallestKey) {
+          smallest = left;
+          smallestKey = this.keys[left];
+        }
+        if (right < length && this.keys[right] < smallestKey) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+
+        this.items[i] = this.items[smallest];
+        this.keys[i] = this.keys[smallest];
+        i = smallest;
+      }
+      this.items[i] = lastItem;
+      this.keys[i] = lastKey;
+    }
+
+    return top;
+  }
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { GradientNoise, getGradientNoise } from '../helper/gradient-noise';
+
+/**
+ * Height transform a biome applies to its terrain. Heights are measured
+ * above the water level.
+ */
+export type TerrainShape =
+  // Add sharp ridges, growing in from the coast
+  | { type: 'ridged'; amount: number; scale?: number; octaves?: number }
+  // Pull the ground towards a height, e.g. the waterline for swamps
+  | { type: 'flatten'; amount: number; target?: number }
+  // Wind ripples of dune crests
+  | { type: 'dunes'; amplitude: number; frequency?: number }
+  // Flat shelves with steep steps between them
+  | { type: 'plateau'; step: number; smoothness?: number };
+
+// Ridges and dunes fade in over this height above the water
+const COAST_FADE = 0.03;
+
+/**
+ * Applies terrain shapes with seeded noise
+ */
+export class TerrainShaper {
+  private ridgeNoise: GradientNoise[];
+  private duneNoise: GradientNoise;
+  private duneWarp: GradientNoise;
+
+  /**
+   * @param seed - Seed for the shape noise
+   */
+  constructor(seed: number) {
+    this.ridgeNoise = Array.from({ length: 8 }, (_, i) => getGradientNoise(seed + 5501 + i));
+    this.duneNoise = getGradientNoise(seed + 5601);
+    this.duneWarp = getGradientNoise(seed + 5602);
+  }
+
+  /**
+   * Apply a shape to a height
+   * @param shape - Terrain shape
+   * @param position - Normalized position vector on unit sphere
+   * @param height - Height above the water level
+   * @returns Shaped height above the water level
+   */
+  apply(shape: TerrainShape, position: THREE.Vector3, height: number): number {
+    if (height <= 0) return height;
+
+    const coast = THREE.MathUtils.smoothstep(height, 0, COAST_FADE);
+
+    switch (shape.type) {
+      case 'ridged':
+        return height + shape.amount * coast *
+          this.ridged(position, shape.scale ?? 4, shape.octaves ?? 4);
+
+      case 'flatten': {
+        const target = shape.target ?? 0.002;
+        return height + (target - height) * THREE.MathUtils.clamp(shape.amount, 0, 1);
+      }
+
+      case 'dunes': {
+        const frequency = shape.frequency ?? 40;
+        // Stretch the noise so crests run in long lines, and warp them
+        const warp = this.duneWarp.noise3D(position.x * 3, position.y * 3, position.z * 3) * 0.3;
+        const n = this.duneNoise.noise3D(
+          (position.x + warp) * frequency,
+          (position.y + warp) * frequency * 0.25,
+          (position.z + warp) * frequency
+        );
+        return height + shape.amplitude * coast * (1 - Math.abs(n));
+      }
+
+      case 'plateau': {
+        const value = height / shape.step;
+        const step = Math.floor(value);
+        const smoothness = THREE.MathUtils.clamp(shape.smoothness ?? 0.25, 0.0001, 1);
+        return (step + THREE.MathUtils.smoothstep(value - step, 1 - smoothness, 1)) * shape.step;
+      }
+    }
+  }
+
+  /**
+   * Ridged multifractal in [0, 1]
+   */
+  private ridged(position: THREE.Vector3, scale: number, octaves: number): number {
+    let result = 0;
+    let amplitude = 0.5;
+    let frequency = scale;
+    let weight = 1;
+    let total = 0;
+
+    for (let i = 0; i < Math.min(octaves, this.ridgeNoise.length); i++) {
+      const n = this.ridgeNoise[i].noise3D(
+        position.x * frequency,
+        position.y * frequency,
+        position.z * frequency
+      );
+      let signal = 1 - Math.abs(n);
+      signal *= signal * weight;
+      weight = THREE.MathUtils.clamp(signal * 2, 0, 1);
+
+      result += signal * amplitude;
+      total += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+
+    return result / total;
+  }
+}
+
+/**
+ * Check that a terrain shape is well-formed
+ * @param shape - Terrain shape
+ * @param path - Where the shape sits, for error messages
+ * @throws Error describing the problem
+ */
+export function validateTerrainShape(shape: TerrainShape, path: string): void {
+  const requireNumber = (value: unknown, field: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Terrain shape at ${path} needs a numeric "${field}"`);
+    }
+  };
+
+  switch (shape?.type) {
+    case 'ridged':
+    case 'flatten':
+      requireNumber(shape.amount, 'amount');
+      return;
+
+    case 'dunes':
+      requireNumber(shape.amplitude, 'amplitude');
+      return;
+
+    case 'plateau':
+      requireNumber(shape.step, 'step');
+      if (shape.step <= 0) {
+        throw new Error(`Terrain shape at ${path} needs a positive "step"`);
+      }
+      return;
+
+    default:
+      throw new Error(`Unknown terrain shape type "${(shape as { type: unknown })?.type}" at ${path}`);
+  }
+}
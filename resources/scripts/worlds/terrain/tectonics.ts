@@ -0,0 +1,275 @@
+import * as THREE from 'three';
+import { Random } from '../../utils/random';
+import { GradientNoise, getGradientNoise } from '../helper/gradient-noise';
+
+/**
+ * Tectonics configuration
+ */
+export interface TectonicsOptions {
+  plateCount: number;
+  continentalRatio: number;
+  boundaryWidth: number;
+  boundaryWarp: number;
+  continentHeight: number;
+  oceanDepth: number;
+  mountainHeight: number;
+  trenchDepth: number;
+  riftDepth: number;
+  ridgeHeight: number;
+  noiseWeight: number;
+}
+
+/**
+ * Default tectonics options. Heights are in planet elevation units,
+ * relative to the water level.
+ */
+export const DEFAULT_TECTONICS_OPTIONS: TectonicsOptions = {
+  plateCount: 14,
+  continentalRatio: 0.4,
+  boundaryWidth: 0.12,
+  boundaryWarp: 0.12,
+  continentHeight: 0.08,
+  oceanDepth: 0.12,
+  mountainHeight: 0.22,
+  trenchDepth: 0.12,
+  riftDepth: 0.05,
+  ridgeHeight: 0.05,
+  noiseWeight: 0.5
+};
+
+export type PlateType = 'oceanic' | 'continental';
+
+/**
+ * A single tectonic plate
+ */
+export interface TectonicPlate {
+  center: THREE.Vector3;
+  // Euler pole scaled by angular speed; surface velocity at p is drift x p
+  drift: THREE.Vector3;
+  type: PlateType;
+  // Relative size of the plate's Voronoi cell
+  weight: number;
+  // Denser plates subduct under lighter ones
+  density: number;
+}
+
+/**
+ * Result of sampling the plates at a point
+ */
+export interface TectonicSample {
+  plate: number;
+  neighbor: number;
+  boundaryDistance: number;
+  convergence: number;
+  elevation: number;
+}
+
+/**
+ * Seeded Voronoi plates on the unit sphere. Turns plate interiors into
+ * continents and ocean basins, and plate boundaries into mountain ranges,
+ * trenches, rift valleys and mid-ocean ridges.
+ */
+export class TectonicPlates {
+  options: TectonicsOptions;
+  plates: TectonicPlate[] = [];
+  private waterLevel: number;
+  private warpNoise: GradientNoise[];
+
+  // Scratch vectors to avoid allocations per sample
+  private warped = new THREE.Vector3();
+  private velocityA = new THREE.Vector3();
+  private velocityB = new THREE.Vector3();
+  private normal = new THREE.Vector3();
+
+  /**
+   * @param seed - Seed for plate layout and drift
+   * @param waterLevel - Planet water level; plate heights are relative to it
+   * @param options - Tectonics configuration
+   */
+  constructor(seed: number, waterLevel: number, options: Partial<TectonicsOptions> = {}) {
+    this.options = { ...DEFAULT_TECTONICS_OPTIONS, ...options };
+    this.waterLevel = waterLevel;
+
+    const random = new Random(seed + 7331);
+    const count = Math.max(2, Math.floor(this.options.plateCount));
+
+    for (let i = 0; i < count; i++) {
+      // Uniform direction on the sphere
+      const z = random.range(-1, 1);
+      const phi = random.range(0, Math.PI * 2);
+      const r = Math.sqrt(1 - z * z);
+      const center = new THREE.Vector3(r * Math.cos(phi), r * Math.sin(phi), z);
+
+      // Random Euler pole and angular speed
+      const pole = new THREE.Vector3(
+        random.range(-1, 1),
+        random.range(-1, 1),
+        random.range(-1, 1)
+      ).normalize();
+      const drift = pole.multiplyScalar(random.range(0.2, 1.0));
+
+      this.plates.push({
+        center,
+        drift,
+        type: 'oceanic',
+        weight: random.range(0.7, 1.3),
+        density: random.value()
+      });
+    }
+
+    // Turn a fixed share of plates (at least one) into continents, so the
+    // land fraction doesn't swing wildly between seeds
+    const continents = Math.max(1, Math.round(count * this.options.continentalRatio));
+    const order = this.plates.map((_, i) => i);
+    for (let i = 0; i < continents; i++) {
+      const j = random.int(i, count - 1);
+      [order[i], order[j]] = [order[j], order[i]];
+      this.plates[order[i]].type = 'continental';
+    }
+
+    this.warpNoise = [
+      getGradientNoise(seed + 101),
+      getGradientNoise(seed + 102),
+      getGradientNoise(seed + 103)
+    ];
+  }
+
+  /**
+   * Sample the plates at a point
+   * @param position - Normalized position vector on unit sphere
+   */
+  sample(position: THREE.Vector3): TectonicSample {
+    const { boundaryWidth, boundaryWarp } = this.options;
+
+    // Warp the lookup so plate boundaries aren't perfect great circles
+    const warped = this.warped.set(
+      position.x + this.warpNoise[0].noise3D(position.x * 2, position.y * 2, position.z * 2) * boundaryWarp,
+      position.y + this.warpNoise[1].noise3D(position.x * 2, position.y * 2, position.z * 2) * boundaryWarp,
+      position.z + this.warpNoise[2].noise3D(position.x * 2, position.y * 2, position.z * 2) * boundaryWarp
+    ).normalize();
+
+    // Find the two nearest plates (weighted angular distance)
+    let plate = 0;
+    let neighbor = 1;
+    let nearest = Infinity;
+    let second = Infinity;
+
+    for (let i = 0; i < this.plates.length; i++) {
+      const distance = Math.acos(THREE.MathUtils.clamp(warped.dot(this.plates[i].center), -1, 1)) / this.plates[i].weight;
+
+      if (distance < nearest) {
+        second = nearest;
+        neighbor = plate;
+        nearest = distance;
+        plate = i;
+      } else if (distance < second) {
+        second = distance;
+        neighbor = i;
+      }
+    }
+
+    const a = this.plates[plate];
+    const b = this.plates[neighbor];
+    const boundaryDistance = (second - nearest) / 2;
+
+    // Boundary normal: tangent direction from this plate towards the neighbour
+    const normal = this.normal.subVectors(b.center, a.center);
+    normal.addScaledVector(position, -normal.dot(position)).normalize();
+
+    // Positive when the plates move towards each other
+    const velocityA = this.velocityA.crossVectors(a.drift, position);
+    const velocityB = this.velocityB.crossVectors(b.drift, position);
+    const convergence = THREE.MathUtils.clamp(velocityA.sub(velocityB).dot(normal), -1, 1);
+
+    // Plate interiors: continents stand above the water, basins below
+    const baseA = this.baseHeight(a);
+    const baseB = this.baseHeight(b);
+    const blend = 0.5 * (1 - THREE.MathUtils.smoothstep(boundaryDistance, 0, boundaryWidth));
+    let elevation = baseA + (baseB - baseA) * blend;
+
+    elevation += this.boundaryFeatures(a, b, boundaryDistance, convergence);
+
+    return {
+      plate,
+      neighbor,
+      boundaryDistance,
+      convergence,
+      elevation: this.waterLevel + elevation
+    };
+  }
+
+  /**
+   * Combine plate elevation with terrain noise
+   * @param position - Normalized position vector on unit sphere
+   * @param terrainNoise - Elevation from the noise pipeline (centred on 0.5)
+   */
+  apply(position: THREE.Vector3, terrainNoise: number): number {
+    return this.sample(position).elevation + (terrainNoise - 0.5) * this.options.noiseWeight;
+  }
+
+  /**
+   * Interior height of a plate relative to the water level
+   */
+  private baseHeight(plate: TectonicPlate): number {
+    return plate.type === 'continental' ? this.options.continentHeight : -this.options.oceanDepth;
+  }
+
+  /**
+   * Height offset from the interaction at a plate boundary. Features that
+   * differ between the two sides vanish at the boundary itself, so the
+   * surface stays continuous across it.
+   */
+  private boundaryFeatures(
+    a: TectonicPlate,
+    b: TectonicPlate,
+    distance: number,
+    convergence: number
+  ): number {
+    const { boundaryWidth, mountainHeight, trenchDepth, riftDepth, ridgeHeight } = this.options;
+
+    const strength = Math.abs(convergence);
+    const sameType = a.type === b.type;
+
+    if (convergence > 0) {
+      if (sameType && a.type === 'continental') {
+        // Continental collision: broad mountain belt
+        return mountainHeight * strength * falloff(distance, boundaryWidth);
+      }
+
+      const subducting = a.type === 'oceanic' && (b.type === 'continental' || a.density > b.density);
+
+      if (subducting) {
+        // We dive under the neighbour: deep trench just off the boundary
+        return -trenchDepth * strength * bump(distance, boundaryWidth * 0.2, boundaryWidth * 0.2);
+      }
+
+      // Overriding plate: coastal range or volcanic island arc inland
+      const height = a.type === 'continental' ? mountainHeight * 0.8 : mountainHeight * 0.6;
+      return height * strength * bump(distance, boundaryWidth * 0.5, boundaryWidth * 0.5);
+    }
+
+    if (sameType && a.type === 'continental') {
+      // Continental rift valley
+      return -riftDepth * strength * falloff(distance, boundaryWidth * 0.4);
+    }
+
+    if (sameType) {
+      // Mid-ocean ridge
+      return ridgeHeight * strength * falloff(distance, boundaryWidth);
+    }
+
+    // Passive continental margin: a shallow shelf break on the land side
+    return a.type === 'continental'
+      ? -riftDepth * 0.5 * strength * bump(distance, boundaryWidth * 0.3, boundaryWidth * 0.3)
+      : 0;
+  }
+}
+
+function falloff(distance: number, width: number): number {
+  return 1 - THREE.MathUtils.smoothstep(distance, 0, width);
+}
+
+// Smooth bump centred at `center`, zero at distance 0 when width <= center
+function bump(distance: number, center: number, width: number): number {
+  return falloff(Math.abs(distance - center), width);
+}
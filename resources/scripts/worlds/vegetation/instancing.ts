@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// Flag in the `userData` of geometries and materials made for a batch, as
+// opposed to those it shares with its template and the page's model cache
+export const BATCH_OWNED = 'batchOwned';
+
+/**
+ * One copy of a template model to draw
+ */
+export interface ModelInstance {
+  // Key of the template in the template map
+  template: string;
+  // Placement of the template root in world space
+  matrix: THREE.Matrix4;
+  // Colour per material name, replacing the material colour for this copy
+  colors?: Record<string, THREE.Color>;
+}
+
+/**
+ * Stand loaded models on their bases, centred and one unit tall, as
+ * templates keyed by model reference and version
+ * @param models - Models named by their reference and tagged with their version
+ * @returns Templates by key, and the versions loaded of each model
+ */
+export function createTemplates(models: THREE.Object3D[]): {
+  templates: Map<string, THREE.Object3D>;
+  versions: Map<string, number[]>;
+} {
+  const templates = new Map<string, THREE.Object3D>();
+  const versions = new Map<string, number[]>();
+
+  for (const model of models) {
+    const box = new THREE.Box3().setFromObject(model);
+    const size = box.max.y - box.min.y;
+    if (!(size > 0)) continue;
+
+    const center = box.getCenter(new THREE.Vector3());
+    model.scale.setScalar(1 / size);
+    model.position.set(-center.x, -box.min.y, -center.z).divideScalar(size);
+
+    const version = model.userData.version ?? 0;
+    templates.set(`${model.name}:${version}`, new THREE.Group().add(model));
+    versions.set(model.name, [...(versions.get(model.name) ?? []), version]);
+  }
+
+  return { templates, versions };
+}
+
+/**
+ * Batch copies of template models into instanced meshes: one
+ * `THREE.InstancedMesh` per template and material, so the draw calls grow
+ * with the number of distinct models rather than the number of copies.
+ * Meshes of a template sharing a material are merged into one geometry.
+ * @param templates - Template models by key, e.g. model name and version
+ * @param instances - Copies to draw
+ * @returns Instanced meshes; materials given per-instance colours are clones.
+ * Free them with disposeInstancedBatch.
+ */
+export function createInstancedBatches(
+  templates: Map<string, THREE.Object3D>,
+  instances: ModelInstance[]
+): THREE.InstancedMesh[] {
+  // Copies per template
+  const byTemplate = new Map<string, ModelInstance[]>();
+  for (const instance of instances) {
+    if (!templates.has(instance.template)) continue;
+
+    const list = byTemplate.get(instance.template) ?? [];
+    list.push(instance);
+    byTemplate.set(instance.template, list);
+  }
+
+  const batches: THREE.InstancedMesh[] = [];
+
+  for (const [key, copies] of byTemplate) {
+    const template = templates.get(key);
+    if (!template) continue;
+
+    for (const { geometry, material } of getTemplateParts(template)) {
+      const colored = copies.some(copy => copy.colors?.[material.name]);
+      const batchMaterial = colored ? tintableMaterial(material) : material;
+      const batch = new THREE.InstancedMesh(geometry, batchMaterial, copies.length);
+      const baseColor = getMaterialColor(material) ?? new THREE.Color(0xffffff);
+
+      copies.forEach((copy, i) => {
+        batch.setMatrixAt(i, copy.matrix);
+        if (colored) {
+          batch.setColorAt(i, copy.colors?.[material.name] ?? baseColor);
+        }
+      });
+
+      batch.instanceMatrix.needsUpdate = true;
+      if (batch.instanceColor) batch.instanceColor.needsUpdate = true;
+      batch.computeBoundingSphere();
+      batch.castShadow = true;
+      batch.receiveShadow = true;
+      batch.name = `${key}:${material.name}`;
+      batch.userData.template = key;
+      batches.push(batch);
+    }
+  }
+
+  return batches;
+}
+
+/**
+ * Free an instanced batch with the geometry and materials made for it,
+ * leaving those it shares with its template
+ */
+export function disposeInstancedBatch(batch: THREE.InstancedMesh): void {
+  if (batch.geometry.userData[BATCH_OWNED]) {
+    batch.geometry.dispose();
+  }
+
+  const materials = Array.isArray(batch.material) ? batch.material : [batch.material];
+  materials.forEach(material => {
+    if (material.userData[BATCH_OWNED]) material.dispose();
+  });
+
+  batch.dispose();
+}
+
+/**
+ * Geometry of a template per material, in template space
+ */
+function getTemplateParts(template: THREE.Object3D): { geometry: THREE.BufferGeometry; material: THREE.Material }[] {
+  template.updateMatrixWorld(true);
+  const toTemplate = template.matrixWorld.clone().invert();
+  const byMaterial = new Map<THREE.Material, THREE.BufferGeometry[]>();
+
+  template.traverse(child => {
+    // Loaded models carry one material per mesh
+    if (!(child instanceof THREE.Mesh) || Array.isArray(child.material)) return;
+
+    const geometry = (child.geometry as THREE.BufferGeometry).clone()
+      .applyMatrix4(toTemplate.clone().multiply(child.matrixWorld));
+    geometry.userData[BATCH_OWNED] = true;
+    const list = byMaterial.get(child.material) ?? [];
+    list.push(geometry);
+    byMaterial.set(child.material, list);
+  });
+
+  const parts: { geometry: THREE.BufferGeometry; material: THREE.Material }[] = [];
+  for (const [material, geometries] of byMaterial) {
+    // Merge where the attributes line up, otherwise keep a batch per mesh
+    const merged = geometries.length > 1 ? mergeGeometries(geometries) : geometries[0];
+    if (merged) {
+      if (merged !== geometries[0]) geometries.forEach(geometry => geometry.dispose());
+      merged.userData[BATCH_OWNED] = true;
+      parts.push({ geometry: merged, material });
+    } else {
+      geometries.forEach(geometry => parts.push({ geometry, material }));
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Copy of a material whose colour is left to the instance colours
+ */
+function tintableMaterial(material: THREE.Material): THREE.Material {
+  const clone = material.clone();
+  clone.userData[BATCH_OWNED] = true;
+  getMaterialColor(clone)?.set(0xffffff);
+  return clone;
+}
+
+function getMaterialColor(material: THREE.Material): THREE.Color | undefined {
+  const { color } = material as THREE.Material & { color?: unknown };
+  return color instanceof THREE.Color ? color : undefined;
+}
@@ -0,0 +1,419 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
+import type { ModelInstance } from './instancing';
+
+/**
+ * Vegetation level of detail configuration. Distances are from the camera
+ * in planet radii.
+ */
+export interface VegetationLODOptions {
+  // Beyond this, instances draw the simplified mesh
+  simplifiedDistance: number;
+  // Beyond this, instances draw a camera-facing impostor sprite
+  impostorDistance: number;
+  // Share (0-1) of vertices collapsed for the simplified mesh
+  simplification: number;
+  // Pixel size of each model's impostor in the atlas
+  impostorResolution: number;
+}
+
+/**
+ * Default vegetation level of detail options
+ */
+export const DEFAULT_VEGETATION_LOD_OPTIONS: VegetationLODOptions = {
+  simplifiedDistance: 1.5,
+  impostorDistance: 2.5,
+  simplification: 0.5,
+  impostorResolution: 128
+};
+
+// Tiers, in order of decreasing detail
+const FULL = 0;
+const SIMPLIFIED = 1;
+const IMPOSTOR = 2;
+const HIDDEN = 3;
+
+// Camera movement, in planet radii, before the tiers are picked again
+const UPDATE_STEP = 0.01;
+// Largest impostor atlas side in pixels
+const MAX_ATLAS_SIZE = 4096;
+
+/**
+ * An instanced mesh of one tier, drawing some of a template's copies
+ */
+interface TierBatch {
+  mesh: THREE.InstancedMesh;
+  tier: number;
+  // Instance index of each of the mesh's original slots
+  copies: number[];
+  // Original per-slot colours, if the mesh has them
+  colors: Float32Array | null;
+}
+
+/**
+ * Vegetation drawn in three tiers of detail: the full instanced batches,
+ * simplified copies of them, and camera-facing impostor sprites baked into
+ * an atlas the first time any is drawn. Each instance picks its tier from
+ * its camera distance, and instances on the far side of the planet are not
+ * drawn at all.
+ */
+export class VegetationLOD {
+  // Holds every tier's meshes
+  readonly object = new THREE.Group();
+
+  private instances: ModelInstance[];
+  private radius: number;
+  private options: VegetationLODOptions;
+  private origins: THREE.Vector3[];
+  private heights: number[];
+  private tiers: Uint8Array;
+  private batches: TierBatch[] = [];
+  private impostors: THREE.InstancedMesh;
+  // Atlas cell and sprite size per template
+  private impostorCells = new Map<string, { rect: THREE.Vector4; size: number }>();
+  private atlas: THREE.WebGLRenderTarget;
+  private baked = false;
+  private camera = new THREE.Vector3();
+  private lastCamera = new THREE.Vector3(Infinity, Infinity, Infinity);
+
+  /**
+   * @param batches - Full detail batches from createInstancedBatches
+   * @param instances - The copies the batches were created from
+   * @param radius - Planet radius
+   * @param options - Level of detail configuration
+   */
+  constructor(
+    batches: THREE.InstancedMesh[],
+    instances: ModelInstance[],
+    radius: number,
+    options: Partial<VegetationLODOptions> = {}
+  ) {
+    this.instances = instances;
+    this.radius = radius;
+    this.options = { ...DEFAULT_VEGETATION_LOD_OPTIONS, ...options };
+    this.origins = instances.map(instance => new THREE.Vector3().setFromMatrixPosition(instance.matrix));
+    this.heights = instances.map(instance => new THREE.Vector3().setFromMatrixColumn(instance.matrix, 1).length());
+    this.tiers = new Uint8Array(instances.length);
+
+    // Instance indices of each template's copies, in batch slot order
+    const copiesByTemplate = new Map<string, number[]>();
+    instances.forEach((instance, index) => {
+      const copies = copiesByTemplate.get(instance.template) ?? [];
+      copies.push(index);
+      copiesByTemplate.set(instance.template, copies);
+    });
+
+    for (const mesh of batches) {
+      const copies = copiesByTemplate.get(mesh.userData.template) ?? [];
+      const colors = mesh.instanceColor ? Float32Array.from(mesh.instanceColor.array) : null;
+      this.batches.push({ mesh, tier: FULL, copies, colors });
+      this.batches.push({ mesh: this.simplifiedBatch(mesh, colors), tier: SIMPLIFIED, copies, colors });
+    }
+    this.batches.forEach(batch => this.object.add(batch.mesh));
+
+    // Every template gets a square atlas cell wide enough for its crown
+    const templates = [...copiesByTemplate.keys()];
+    const columns = Math.max(1, Math.ceil(Math.sqrt(templates.length)));
+    const rows = Math.max(1, Math.ceil(templates.length / columns));
+    const resolution = Math.min(
+      this.options.impostorResolution,
+      Math.floor(MAX_ATLAS_SIZE / Math.max(columns, rows))
+    );
+    templates.forEach((template, i) => {
+      const meshes = this.batches.filter(batch => batch.tier === FULL && batch.mesh.userData.template === template);
+      const rect = new THREE.Vector4(
+        (i % columns) / columns,
+        Math.floor(i / columns) / rows,
+        1 / columns,
+        1 / rows
+      );
+      this.impostorCells.set(template, { rect, size: Math.max(1, templateWidth(meshes.map(batch => batch.mesh))) });
+    });
+
+    this.atlas = new THREE.WebGLRenderTarget(columns * resolution, rows * resolution, {
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      generateMipmaps: false
+    });
+    this.impostors = this.impostorBatch();
+    this.object.add(this.impostors);
+  }
+
+  /**
+   * Pick each instance's tier for a camera and redraw the batches
+   * @param camera - Camera the planet is viewed from
+   */
+  update(camera: THREE.Camera): void {
+    this.object.worldToLocal(camera.getWorldPosition(this.camera));
+    const step = UPDATE_STEP * this.radius;
+    if (this.camera.distanceToSquared(this.lastCamera) < step * step) return;
+    this.lastCamera.copy(this.camera);
+
+    const simplified = this.options.simplifiedDistance * this.radius;
+    const impostor = this.options.impostorDistance * this.radius;
+
+    this.origins.forEach((origin, i) => {
+      // Hidden below the horizon, allowing for the height of the model
+      const length = origin.length();
+      if (length > 0 && origin.dot(this.camera) / length < length - this.heights[i]) {
+        this.tiers[i] = HIDDEN;
+        return;
+      }
+
+      const distance = origin.distanceTo(this.camera);
+      this.tiers[i] = distance >= impostor ? IMPOSTOR : distance >= simplified ? SIMPLIFIED : FULL;
+    });
+
+    const color = new THREE.Color();
+    for (const { mesh, tier, copies, colors } of this.batches) {
+      let count = 0;
+      copies.forEach((index, slot) => {
+        if (this.tiers[index] !== tier) return;
+        mesh.setMatrixAt(count, this.instances[index].matrix);
+        if (colors) mesh.setColorAt(count, color.fromArray(colors, slot * 3));
+        count++;
+      });
+      mesh.count = count;
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    }
+
+    const rects = this.impostors.geometry.getAttribute('impostorRect') as THREE.InstancedBufferAttribute;
+    const sizes = this.impostors.geometry.getAttribute('impostorSize') as THREE.InstancedBufferAttribute;
+    let count = 0;
+    this.instances.forEach((instance, index) => {
+      const cell = this.impostorCells.get(instance.template);
+      if (this.tiers[index] !== IMPOSTOR || !cell) return;
+      this.impostors.setMatrixAt(count, instance.matrix);
+      rects.setXYZW(count, cell.rect.x, cell.rect.y, cell.rect.z, cell.rect.w);
+      sizes.setX(count, cell.size);
+      count++;
+    });
+    this.impostors.count = count;
+    this.impostors.instanceMatrix.needsUpdate = true;
+    rects.needsUpdate = true;
+    sizes.needsUpdate = true;
+  }
+
+  /**
+   * Release the simplified geometries and the impostor atlas. The full
+   * batches belong to the caller.
+   */
+  dispose(): void {
+    for (const { mesh, tier } of this.batches) {
+      if (tier === SIMPLIFIED) {
+        mesh.geometry.dispose();
+        mesh.dispose();
+      }
+    }
+    this.impostors.geometry.dispose();
+    (this.impostors.material as THREE.Material).dispose();
+    this.impostors.dispose();
+    this.atlas.dispose();
+  }
+
+  /**
+   * Copy of a full batch drawing a simplified geometry with the same
+   * materials, starting empty
+   */
+  private simplifiedBatch(mesh: THREE.InstancedMesh, colors: Float32Array | null): THREE.InstancedMesh {
+    const batch = new THREE.InstancedMesh(
+      simplifyGeometry(mesh.geometry, this.options.simplification),
+      mesh.material,
+      mesh.count
+    );
+    if (colors) {
+      // Create the colour attribute; update() fills it
+      batch.setColorAt(0, new THREE.Color(0xffffff));
+    }
+    batch.count = 0;
+    batch.boundingSphere = mesh.boundingSphere?.clone() ?? null;
+    batch.castShadow = mesh.castShadow;
+    batch.receiveShadow = mesh.receiveShadow;
+    batch.name = `${mesh.name}:simplified`;
+    batch.userData.template = mesh.userData.template;
+    return batch;
+  }
+
+  /**
+   * One instanced sprite for every template, each copy showing its
+   * template's atlas cell and turning about its up axis to face the camera
+   */
+  private impostorBatch(): THREE.InstancedMesh {
+    const capacity = Math.max(1, this.instances.length);
+    const geometry = new THREE.PlaneGeometry(1, 1).translate(0, 0.5, 0);
+    geometry.setAttribute('impostorRect', new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4));
+    geometry.setAttribute('impostorSize', new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1));
+
+    const material = new THREE.MeshStandardMaterial({
+      map: this.atlas.texture,
+      alphaTest: 0.5,
+      side: THREE.DoubleSide,
+      roughness: 0.9,
+      metalness: 0
+    });
+    material.name = 'Impostor';
+    material.onBeforeCompile = (shader) => {
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+          attribute vec4 impostorRect;
+          attribute float impostorSize;`
+        )
+        .replace(
+          '#include <uv_vertex>',
+          `#include <uv_vertex>
+          #ifdef USE_MAP
+            vMapUv = impostorRect.xy + uv * impostorRect.zw;
+          #endif`
+        )
+        .replace(
+          '#include <beginnormal_vertex>',
+          // Lit like the ground the model stands on
+          'vec3 objectNormal = vec3(0.0, 1.0, 0.0);'
+        )
+        .replace(
+          '#include <begin_vertex>',
+          `#ifdef USE_INSTANCING
+            mat4 impostorMatrix = modelMatrix * instanceMatrix;
+          #else
+            mat4 impostorMatrix = modelMatrix;
+          #endif
+          // Camera direction in model space, flattened onto the ground plane
+          vec3 impostorView = cameraPosition - impostorMatrix[3].xyz;
+          vec3 impostorFacing = vec3(
+            dot(impostorMatrix[0].xyz, impostorView),
+            0.0,
+            dot(impostorMatrix[2].xyz, impostorView)
+          );
+          impostorFacing = length(impostorFacing) > 1e-6 ? normalize(impostorFacing) : vec3(0.0, 0.0, 1.0);
+          vec3 impostorRight = vec3(impostorFacing.z, 0.0, -impostorFacing.x);
+          vec3 transformed = (impostorRight * position.x + vec3(0.0, position.y, 0.0)) * impostorSize;`
+        );
+    };
+
+    const batch = new THREE.InstancedMesh(geometry, material, capacity);
+    batch.count = 0;
+    // Sprites turn in the vertex shader, so bounds cannot be computed
+    batch.frustumCulled = false;
+    batch.receiveShadow = true;
+    batch.name = 'impostors';
+    batch.onBeforeRender = (renderer) => {
+      if (!this.baked) this.bakeImpostors(renderer);
+    };
+    return batch;
+  }
+
+  /**
+   * Render every template from the side into its atlas cell, lit evenly so
+   * the sprites carry plain surface colours
+   */
+  private bakeImpostors(renderer: THREE.WebGLRenderer): void {
+    this.baked = true;
+
+    const scene = new THREE.Scene();
+    // Legacy lighting scales light intensities by pi
+    scene.add(new THREE.AmbientLight(0xffffff, renderer.useLegacyLights ? 1 : Math.PI));
+    const camera = new THREE.OrthographicCamera(-0.5, 0.5, 1, 0, 0.01, 10);
+    camera.position.set(0, 0, 5);
+
+    // One mesh per template material, tinted batches showing their first copy
+    const parts = new Map<string, THREE.Mesh[]>();
+    const materials: THREE.Material[] = [];
+    const color = new THREE.Color();
+    for (const { mesh, tier, colors } of this.batches) {
+      if (tier !== FULL || Array.isArray(mesh.material)) continue;
+
+      let material = mesh.material;
+      if (colors && 'color' in material && material.color instanceof THREE.Color) {
+        material = material.clone();
+        (material as THREE.MeshStandardMaterial).color.copy(color.fromArray(colors, 0));
+        materials.push(material);
+      }
+      const part = new THREE.Mesh(mesh.geometry, material);
+      part.visible = false;
+      scene.add(part);
+      const list = parts.get(mesh.userData.template) ?? [];
+      list.push(part);
+      parts.set(mesh.userData.template, list);
+    }
+
+    const renderTarget = renderer.getRenderTarget();
+    const clearColor = renderer.getClearColor(new THREE.Color());
+    const clearAlpha = renderer.getClearAlpha();
+    const shadowAutoUpdate = renderer.shadowMap.autoUpdate;
+    const xrEnabled = renderer.xr.enabled;
+    renderer.shadowMap.autoUpdate = false;
+    renderer.xr.enabled = false;
+    renderer.setClearColor(0x000000, 0);
+
+    const { width, height } = this.atlas;
+    this.atlas.scissorTest = false;
+    this.atlas.viewport.set(0, 0, width, height);
+    renderer.setRenderTarget(this.atlas);
+    renderer.clear();
+
+    this.atlas.scissorTest = true;
+    for (const [template, meshes] of parts) {
+      const cell = this.impostorCells.get(template);
+      if (!cell) continue;
+
+      const { rect, size } = cell;
+      this.atlas.viewport.set(rect.x * width, rect.y * height, rect.z * width, rect.w * height);
+      this.atlas.scissor.copy(this.atlas.viewport);
+      camera.left = -size / 2;
+      camera.right = size / 2;
+      camera.top = size;
+      camera.updateProjectionMatrix();
+
+      meshes.forEach(mesh => (mesh.visible = true));
+      renderer.setRenderTarget(this.atlas);
+      renderer.render(scene, camera);
+      meshes.forEach(mesh => (mesh.visible = false));
+    }
+
+    this.atlas.scissorTest = false;
+    renderer.setRenderTarget(renderTarget);
+    renderer.setClearColor(clearColor, clearAlpha);
+    renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+    renderer.xr.enabled = xrEnabled;
+    materials.forEach(material => material.dispose());
+  }
+}
+
+/**
+ * Copy of a geometry with a share of its vertices collapsed, flat shaded.
+ * Returns the geometry itself where it cannot be simplified.
+ */
+function simplifyGeometry(geometry: THREE.BufferGeometry, simplification: number): THREE.BufferGeometry {
+  // The modifier welds vertices by position, so count the welded ones
+  const welded = new THREE.BufferGeometry().setAttribute('position', geometry.getAttribute('position'));
+  if (geometry.index) welded.setIndex(geometry.index);
+  const vertices = mergeVertices(welded).getAttribute('position').count;
+  const collapse = Math.floor(vertices * Math.min(1, Math.max(0, simplification)));
+  if (collapse < 1 || vertices - collapse < 3) return geometry;
+
+  const simplified = new SimplifyModifier().modify(geometry, collapse);
+  if (!simplified.index || simplified.index.count === 0) return geometry;
+
+  const flat = simplified.toNonIndexed();
+  flat.computeVertexNormals();
+  simplified.dispose();
+  return flat;
+}
+
+/**
+ * Widest horizontal extent of a template's geometries around its up axis
+ */
+function templateWidth(meshes: THREE.InstancedMesh[]): number {
+  let radius = 0;
+  for (const mesh of meshes) {
+    const position = mesh.geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+      radius = Math.max(radius, Math.hypot(position.getX(i), position.getZ(i)));
+    }
+  }
+  return radius * 2;
+}
@@ -0,0 +1,269 @@
+import * as THREE from 'three';
+import { Octree } from '../helper/octree';
+import type { SphereGraph } from '../helper/sphere-graph';
+import type { Random } from '../../utils/random';
+
+/**
+ * A kind of point to scatter. Distances are measured on the unit sphere.
+ */
+export interface ScatterItem {
+  // Closest this item may come to any scattered point
+  minimumDistance: number;
+  // Furthest a new point grows from the point it was spawned by
+  maximumDistance: number;
+  // Share (0-1) of the item's blue noise points kept around a graph vertex;
+  // 0 where the item cannot grow at all
+  chance: (vertex: number) => number;
+}
+
+/**
+ * A scattered point: a unit direction, the item it belongs to and the
+ * nearest graph vertex
+ */
+export class ScatterPoint extends THREE.Vector3 {
+  item: number;
+  vertex: number;
+  // Exclusion radius of the item
+  radius: number;
+
+  constructor(
+    x: number = 0,
+    y: number = 0,
+    z: number = 0,
+    item: number = -1,
+    vertex: number = -1,
+    radius: number = 0
+  ) {
+    super(x, y, z);
+    this.item = item;
+    this.vertex = vertex;
+    this.radius = radius;
+  }
+}
+
+/**
+ * Poisson disk sampler configuration
+ */
+export interface PoissonOptions {
+  // Candidates tried around each point before it stops spawning
+  attempts: number;
+}
+
+/**
+ * Default Poisson disk sampler options
+ */
+export const DEFAULT_POISSON_OPTIONS: PoissonOptions = {
+  attempts: 10
+};
+
+const ORIGIN = new THREE.Vector3(0, 0, 0);
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+// Scratch vectors for building tangents
+const TANGENT_U = new THREE.Vector3();
+const TANGENT_V = new THREE.Vector3();
+// Octree size covering the unit sphere
+const OCTREE_SIZE = 2.5;
+
+/**
+ * Scatter items over a sphere as blue noise. Each item grows its own
+ * Poisson disk pattern (Bridson's algorithm on the sphere) over the area
+ * where it can grow, keeps each point with the item's chance there, and
+ * keeps clear of points already placed by other items. Items are placed
+ * largest spacing first, so trees claim their ground before grass.
+ * @param graph - Vertex graph of the sphere the chances are given on
+ * @param items - Items to scatter
+ * @param random - Seeded random source
+ * @param options - Sampler configuration
+ * @returns Kept points, with an octree holding them for spatial queries
+ */
+export function scatterOnSphere(
+  graph: SphereGraph,
+  items: ScatterItem[],
+  random: Random,
+  options: Partial<PoissonOptions> = {}
+): { points: ScatterPoint[]; octree: Octree<ScatterPoint> } {
+  const settings = { ...DEFAULT_POISSON_OPTIONS, ...options };
+  const vertexCount = graph.positions.length;
+  const octree = new Octree<ScatterPoint>(ORIGIN, OCTREE_SIZE);
+  const points: ScatterPoint[] = [];
+  let largestRadius = 0;
+
+  const order = items
+    .map((_, index) => index)
+    .sort((a, b) => items[b].minimumDistance - items[a].minimumDistance);
+
+  for (const index of order) {
+    const item = items[index];
+    const radius = item.minimumDistance;
+    if (!(radius > 0)) continue;
+
+    // Chance per vertex, and the highest anywhere
+    const chances = Float32Array.from(graph.positions, (_, vertex) => item.chance(vertex));
+    const peak = chances.reduce((highest, chance) => Math.max(highest, chance), 0);
+    if (peak <= 0) continue;
+
+    // A sparse item keeps few points of a pattern at its minimum distance;
+    // spread its pattern out instead so the same density is kept from
+    // fewer, further apart points
+    const spread = 1 / Math.sqrt(Math.min(1, peak));
+    const spacing = radius * spread;
+    const reach = Math.max(item.maximumDistance * spread, spacing * 1.01);
+
+    // This item's own blue noise pattern, kept or not
+    const pattern = new PointGrid(spacing * 2);
+    const active: { direction: THREE.Vector3; vertex: number }[] = [];
+
+    const tryPoint = (direction: THREE.Vector3, vertex: number): boolean => {
+      const chance = chances[vertex];
+      if (chance <= 0 || pattern.hasWithin(direction, spacing)) return false;
+
+      pattern.add(direction);
+      active.push({ direction, vertex });
+
+      // Keep clear of everything already placed
+      const blocked = octree.querySphere(direction, Math.max(radius, largestRadius))
+        .some(point => point.distanceTo(direction) < Math.max(radius, point.radius));
+
+      if (!blocked && random.value() < chance / peak) {
+        const point = new ScatterPoint(direction.x, direction.y, direction.z, index, vertex, radius);
+        octree.insert(point);
+        points.push(point);
+      }
+      return true;
+    };
+
+    // Start from about one random vertex per spawning disk, so every patch
+    // of the item's ground gets a start
+    const seeds = Math.ceil(4 / (reach * reach));
+    for (let i = 0; i < seeds; i++) {
+      const vertex = random.int(0, vertexCount - 1);
+      tryPoint(graph.positions[vertex].clone(), vertex);
+    }
+
+    // Grow the pattern out from the active points
+    const tangent = new THREE.Vector3();
+    while (active.length > 0) {
+      const slot = random.int(0, active.length - 1);
+      const origin = active[slot];
+      let spawned = false;
+
+      for (let attempt = 0; attempt < settings.attempts && !spawned; attempt++) {
+        const angle = random.range(spacing, reach);
+        randomTangent(origin.direction, random, tangent);
+        const candidate = origin.direction.clone()
+          .multiplyScalar(Math.cos(angle))
+          .addScaledVector(tangent, Math.sin(angle))
+          .normalize();
+        spawned = tryPoint(candidate, nearestVertex(graph, origin.vertex, candidate));
+      }
+
+      if (!spawned) {
+        active[slot] = active[active.length - 1];
+        active.pop();
+      }
+    }
+
+    largestRadius = Math.max(largestRadius, radius);
+  }
+
+  return { points, octree };
+}
+
+/**
+ * Walk the graph from a vertex to the vertex nearest a direction. On a
+ * sphere the walk never gets stuck short of it.
+ */
+function nearestVertex(graph: SphereGraph, start: number, direction: THREE.Vector3): number {
+  const { positions, neighbors } = graph;
+  let vertex = start;
+  let best = positions[vertex].dot(direction);
+
+  for (;;) {
+    let next = vertex;
+    for (const neighbor of neighbors[vertex]) {
+      const alignment = positions[neighbor].dot(direction);
+      if (alignment > best) {
+        best = alignment;
+        next = neighbor;
+      }
+    }
+    if (next === vertex) return vertex;
+    vertex = next;
+  }
+}
+
+/**
+ * Random unit vector perpendicular to a unit direction
+ */
+function randomTangent(direction: THREE.Vector3, random: Random, target: THREE.Vector3): THREE.Vector3 {
+  const axis = Math.abs(direction.x) < 0.9 ? X_AXIS : Y_AXIS;
+  const u = TANGENT_U.crossVectors(direction, axis).normalize();
+  const v = TANGENT_V.crossVectors(direction, u);
+  const angle = random.range(0, Math.PI * 2);
+  return target.copy(u).multiplyScalar(Math.cos(angle)).addScaledVector(v, Math.sin(angle));
+}
+
+/**
+ * Hash grid of points on the unit sphere, for the many close range checks
+ * within one pattern
+ */
+class PointGrid {
+  private cellSize: number;
+  // Cells along each axis, with a margin around the sphere
+  private span: number;
+  private cells = new Map<number, THREE.Vector3[]>();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+    this.span = Math.ceil(2 / cellSize) + 4;
+  }
+
+  add(point: THREE.Vector3): void {
+    const key = this.key(this.cell(point.x), this.cell(point.y), this.cell(point.z));
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      this.cells.set(key, [point]);
+    }
+  }
+
+  /**
+   * Whether any point lies closer than a distance up to half the cell size
+   */
+  hasWithin(point: THREE.Vector3, distance: number): boolean {
+    // Only the cells on the near side of each axis can hold such a point
+    const fx = point.x / this.cellSize + (this.span >> 1);
+    const fy = point.y / this.cellSize + (this.span >> 1);
+    const fz = point.z / this.cellSize + (this.span >> 1);
+    const x = Math.floor(fx);
+    const y = Math.floor(fy);
+    const z = Math.floor(fz);
+    const sx = fx - x < 0.5 ? -1 : 1;
+    const sy = fy - y < 0.5 ? -1 : 1;
+    const sz = fz - z < 0.5 ? -1 : 1;
+    const distanceSq = distance * distance;
+
+    for (let i = 0; i < 8; i++) {
+      const cell = this.cells.get(this.key(
+        x + (i & 1 ? sx : 0),
+        y + (i & 2 ? sy : 0),
+        z + (i & 4 ? sz : 0)
+      ));
+      if (!cell) continue;
+      for (const other of cell) {
+        if (other.distanceToSquared(point) < distanceSq) return true;
+      }
+    }
+    return false;
+  }
+
+  private cell(coordinate: number): number {
+    return Math.floor(coordinate / this.cellSize) + (this.span >> 1);
+  }
+
+  private key(x: number, y: number, z: number): number {
+    return (x * this.span + y) * this.span + z;
+  }
+}
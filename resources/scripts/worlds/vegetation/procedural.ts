@@ -0,0 +1,433 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { Random } from '../../utils/random';
+
+/**
+ * Geometry parts of a model by material name
+ */
+type ModelParts = Record<string, THREE.BufferGeometry[]>;
+
+type ModelGenerator = (random: Random) => ModelParts;
+
+/**
+ * Generators by collection model name. Each model is about one unit tall,
+ * stands on the origin and grows up +y, like the collection's GLTF files.
+ */
+const GENERATORS: Record<string, ModelGenerator> = {
+  BirchTree: createBirchTree,
+  Cactus: createCactus,
+  CommonTree: createBroadleafTree,
+  Coral: createCoral,
+  Grass: createGrass,
+  Kelp: createKelp,
+  PalmTree: createPalmTree,
+  PineTree: createPineTree,
+  Rock: createRock,
+  Seagrass: createGrass,
+  Willow: createWillow
+};
+
+/**
+ * Generate a low-poly stand-in for a collection model. The meshes are named
+ * after their material slot (`Bark_0`, `Leaves_1`, ...) the way the GLTF
+ * files are, and use the collection's materials where given.
+ * @param modelName - Model name in the collection
+ * @param version - Model version; each version is a different shape
+ * @param seed - Seed the shapes are drawn from
+ * @param materials - Collection materials by slot name
+ * @returns The model, tagged with its name and version, or null for
+ * unknown model names
+ */
+export function createProceduralModel(
+  modelName: string,
+  version: number,
+  seed: number,
+  materials: Record<string, THREE.Material> = {}
+): THREE.Object3D | null {
+  const generator = GENERATORS[modelName];
+  if (!generator) return null;
+
+  const random = new Random(seed + version * 7919);
+  const model = new THREE.Group();
+  model.name = modelName;
+  model.userData.version = version;
+
+  for (const [materialName, geometries] of Object.entries(generator(random))) {
+    // Flat faces for the low-poly look
+    const faceted = geometries.map(geometry => {
+      const flat = geometry.index ? geometry.toNonIndexed() : geometry;
+      if (flat !== geometry) geometry.dispose();
+      flat.deleteAttribute('normal');
+      flat.computeVertexNormals();
+      return flat;
+    });
+
+    const merged = faceted.length > 1 ? mergeGeometries(faceted) : faceted[0];
+    const parts = merged ? [merged] : faceted;
+    if (merged && merged !== faceted[0]) faceted.forEach(geometry => geometry.dispose());
+
+    parts.forEach((geometry, i) => {
+      const mesh = new THREE.Mesh(geometry, materials[materialName] ?? fallbackMaterial(materialName));
+      mesh.name = `${materialName}_${i}`;
+      model.add(mesh);
+    });
+  }
+
+  return model;
+}
+
+function createPineTree(random: Random): ModelParts {
+  const trunkHeight = random.range(0.25, 0.35);
+  const tiers = random.int(3, 4);
+  const leaves: THREE.BufferGeometry[] = [];
+
+  // Cones narrowing towards the top, each overlapping the one below
+  let base = trunkHeight * 0.6;
+  for (let tier = 0; tier < tiers; tier++) {
+    const shrink = 1 - tier / (tiers + 1);
+    const height = random.range(0.3, 0.38) * (0.7 + 0.3 * shrink);
+    leaves.push(place(
+      new THREE.ConeGeometry(random.range(0.3, 0.36) * shrink, height, random.int(6, 7)),
+      new THREE.Vector3(0, base + height / 2, 0),
+      new THREE.Euler(random.range(-0.05, 0.05), random.range(0, Math.PI * 2), random.range(-0.05, 0.05))
+    ));
+    base += height * 0.55;
+  }
+
+  return {
+    Bark: [trunk(0.04, 0.06, trunkHeight)],
+    Leaves: leaves
+  };
+}
+
+function createBroadleafTree(random: Random): ModelParts {
+  const trunkHeight = random.range(0.4, 0.55);
+  const leaves: THREE.BufferGeometry[] = [];
+
+  // A few lumpy blobs clustered over the trunk
+  const blobs = random.int(2, 4);
+  for (let i = 0; i < blobs; i++) {
+    const radius = random.range(0.22, 0.32);
+    const angle = random.range(0, Math.PI * 2);
+    const spread = i === 0 ? 0 : random.range(0.12, 0.2);
+    leaves.push(place(
+      blob(radius, random),
+      new THREE.Vector3(Math.cos(angle) * spread, trunkHeight + radius * random.range(0.5, 0.9), Math.sin(angle) * spread)
+    ));
+  }
+
+  return {
+    Bark: [trunk(0.05, 0.08, trunkHeight + 0.1)],
+    Leaves: leaves
+  };
+}
+
+function createWillow(random: Random): ModelParts {
+  const trunkHeight = random.range(0.45, 0.55);
+  const crownRadius = random.range(0.32, 0.38);
+  const leaves: THREE.BufferGeometry[] = [
+    place(
+      blob(crownRadius, random),
+      new THREE.Vector3(0, trunkHeight + crownRadius * 0.4, 0),
+      undefined,
+      new THREE.Vector3(1.3, 0.7, 1.3)
+    )
+  ];
+
+  // Curtains of leaves hanging from the rim of the crown
+  const strands = random.int(6, 8);
+  for (let i = 0; i < strands; i++) {
+    const angle = (i / strands) * Math.PI * 2 + random.range(-0.2, 0.2);
+    const length = random.range(0.3, 0.45);
+    const reach = crownRadius * 1.05;
+    leaves.push(place(
+      new THREE.ConeGeometry(0.1, length, 4),
+      new THREE.Vector3(Math.cos(angle) * reach, trunkHeight + crownRadius * 0.3 - length / 2, Math.sin(angle) * reach),
+      new THREE.Euler(Math.PI, angle, 0)
+    ));
+  }
+
+  return {
+    Bark: [trunk(0.06, 0.1, trunkHeight + 0.1)],
+    Leaves: leaves
+  };
+}
+
+function createBirchTree(random: Random): ModelParts {
+  const trunkHeight = random.range(0.7, 0.85);
+  const leaves: THREE.BufferGeometry[] = [];
+
+  // Narrow, upright clumps along the upper trunk
+  const clumps = random.int(2, 3);
+  for (let i = 0; i < clumps; i++) {
+    const radius = random.range(0.14, 0.2);
+    const angle = random.range(0, Math.PI * 2);
+    const spread = random.range(0.04, 0.1);
+    leaves.push(place(
+      blob(radius, random),
+      new THREE.Vector3(
+        Math.cos(angle) * spread,
+        trunkHeight * (0.55 + 0.45 * (i + 1) / clumps),
+        Math.sin(angle) * spread
+      ),
+      undefined,
+      new THREE.Vector3(0.8, 1.5, 0.8)
+    ));
+  }
+
+  return {
+    Bark: [trunk(0.03, 0.045, trunkHeight)],
+    Leaves: leaves
+  };
+}
+
+function createPalmTree(random: Random): ModelParts {
+  const segments = 5;
+  const segmentHeight = random.range(0.15, 0.18);
+  const lean = random.range(0.15, 0.35);
+  const heading = random.range(0, Math.PI * 2);
+  const bark: THREE.BufferGeometry[] = [];
+
+  // A trunk of short tapering segments bending away from upright
+  const along = (t: number) => new THREE.Vector3(
+    Math.cos(heading) * lean * t * t,
+    t * segments * segmentHeight,
+    Math.sin(heading) * lean * t * t
+  );
+  for (let i = 0; i < segments; i++) {
+    bark.push(segment(along(i / segments), along((i + 1) / segments), 0.05 - i * 0.004, 0.045 - i * 0.004));
+  }
+  const top = along(1);
+
+  // Fronds drooping out from the crown
+  const leaves: THREE.BufferGeometry[] = [];
+  const fronds = random.int(5, 7);
+  for (let i = 0; i < fronds; i++) {
+    const angle = (i / fronds) * Math.PI * 2 + random.range(-0.2, 0.2);
+    const length = random.range(0.35, 0.45);
+    const frond = new THREE.ConeGeometry(0.07, length, 3);
+    frond.scale(1, 1, 0.25);
+    // Lay the frond out from its base, drooping below the horizontal
+    frond.translate(0, length / 2, 0);
+    frond.rotateZ(-Math.PI / 2 - random.range(0.2, 0.5));
+    frond.rotateY(-angle);
+    frond.translate(top.x, top.y, top.z);
+    leaves.push(frond);
+  }
+
+  return {
+    Bark: bark,
+    Leaves: leaves
+  };
+}
+
+function createCactus(random: Random): ModelParts {
+  const height = random.range(0.75, 0.9);
+  const radius = random.range(0.09, 0.11);
+  const parts: THREE.BufferGeometry[] = [
+    trunk(radius, radius, height, 7),
+    place(new THREE.SphereGeometry(radius, 7, 3, 0, Math.PI * 2, 0, Math.PI / 2), new THREE.Vector3(0, height, 0))
+  ];
+
+  // Arms bent upwards on opposite sides
+  const arms = random.int(1, 2);
+  const heading = random.range(0, Math.PI * 2);
+  for (let i = 0; i < arms; i++) {
+    const angle = heading + i * Math.PI;
+    const armRadius = radius * 0.7;
+    const reach = random.range(0.15, 0.2);
+    const elbow = height * random.range(0.35, 0.55);
+    const rise = random.range(0.15, 0.25);
+    const direction = new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle));
+    const start = new THREE.Vector3(0, elbow, 0);
+    const bend = direction.clone().multiplyScalar(reach).setY(elbow);
+
+    parts.push(segment(start, bend, armRadius, armRadius));
+    parts.push(segment(bend, bend.clone().setY(elbow + rise), armRadius, armRadius));
+    parts.push(place(
+      new THREE.SphereGeometry(armRadius, 6, 3, 0, Math.PI * 2, 0, Math.PI / 2),
+      direction.clone().multiplyScalar(reach).setY(elbow + rise)
+    ));
+  }
+
+  return { Cactus: parts };
+}
+
+function createRock(random: Random): ModelParts {
+  const rock = blob(0.5, random, 0.25);
+  rock.scale(random.range(0.9, 1.3), random.range(0.5, 0.8), random.range(0.9, 1.2));
+  rock.rotateY(random.range(0, Math.PI * 2));
+
+  // Sink it a little so it does not sit on a point
+  rock.computeBoundingBox();
+  rock.translate(0, -rock.boundingBox!.min.y * 0.85, 0);
+
+  return { Rock: [rock] };
+}
+
+function createGrass(random: Random): ModelParts {
+  const blades: THREE.BufferGeometry[] = [];
+  const count = random.int(5, 8);
+
+  // Thin blades leaning out from a tuft
+  for (let i = 0; i < count; i++) {
+    const angle = random.range(0, Math.PI * 2);
+    const height = random.range(0.6, 1);
+    const blade = new THREE.ConeGeometry(0.05, height, 3);
+    blade.translate(0, height / 2, 0);
+    blade.rotateZ(-random.range(0.1, 0.5));
+    blade.rotateY(angle);
+    blade.translate(Math.cos(angle) * 0.05, 0, -Math.sin(angle) * 0.05);
+    blades.push(blade);
+  }
+
+  return { Grass: blades };
+}
+
+function createKelp(random: Random): ModelParts {
+  const kelp: THREE.BufferGeometry[] = [];
+  const stalks = random.int(2, 4);
+  const segments = 5;
+
+  // Stalks wavering up from a holdfast, with blades along them
+  for (let i = 0; i < stalks; i++) {
+    const angle = random.range(0, Math.PI * 2);
+    const height = random.range(0.7, 1);
+    const phase = random.range(0, Math.PI * 2);
+    const along = (t: number) => new THREE.Vector3(
+      Math.cos(angle) * 0.05 + Math.sin(phase + t * 5) * 0.06,
+      t * height,
+      Math.sin(angle) * 0.05 + Math.cos(phase + t * 4) * 0.06
+    );
+
+    for (let s = 0; s < segments; s++) {
+      kelp.push(segment(along(s / segments), along((s + 1) / segments), 0.015, 0.012, 4));
+    }
+
+    for (let s = 1; s <= segments; s++) {
+      const length = random.range(0.15, 0.25);
+      const blade = new THREE.ConeGeometry(0.04, length, 3);
+      blade.scale(1, 1, 0.3);
+      blade.translate(0, length / 2, 0);
+      blade.rotateZ(-random.range(0.4, 0.8));
+      blade.rotateY(random.range(0, Math.PI * 2));
+      const base = along(s / segments);
+      blade.translate(base.x, base.y, base.z);
+      kelp.push(blade);
+    }
+  }
+
+  return { Kelp: kelp };
+}
+
+function createCoral(random: Random): ModelParts {
+  const base = blob(0.18, random, 0.2);
+  base.scale(1, 0.5, 1);
+  const coral: THREE.BufferGeometry[] = [base];
+
+  // Branches forking upwards, tipped with polyp knobs
+  const grow = (from: THREE.Vector3, direction: THREE.Vector3, length: number, radius: number, forks: number) => {
+    const to = from.clone().addScaledVector(direction, length);
+    coral.push(segment(from, to, radius, radius * 0.75, 5));
+    if (forks === 0) {
+      coral.push(place(new THREE.IcosahedronGeometry(radius * 0.9, 0), to));
+      return;
+    }
+
+    const branches = random.int(2, 3);
+    for (let i = 0; i < branches; i++) {
+      const next = direction.clone()
+        .add(new THREE.Vector3(random.range(-0.6, 0.6), random.range(0.1, 0.4), random.range(-0.6, 0.6)))
+        .normalize();
+      grow(to, next, length * random.range(0.6, 0.8), radius * 0.75, forks - 1);
+    }
+  };
+
+  const stems = random.int(2, 3);
+  for (let i = 0; i < stems; i++) {
+    grow(
+      new THREE.Vector3(random.range(-0.08, 0.08), 0.04, random.range(-0.08, 0.08)),
+      new THREE.Vector3(random.range(-0.3, 0.3), 1, random.range(-0.3, 0.3)).normalize(),
+      random.range(0.3, 0.4),
+      0.06,
+      2
+    );
+  }
+
+  return { Coral: coral };
+}
+
+/**
+ * Trunk standing on the origin
+ */
+function trunk(topRadius: number, bottomRadius: number, height: number, segments: number = 6): THREE.BufferGeometry {
+  return new THREE.CylinderGeometry(topRadius, bottomRadius, height, segments)
+    .translate(0, height / 2, 0);
+}
+
+/**
+ * Cylinder running from one point to another
+ */
+function segment(
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  fromRadius: number,
+  toRadius: number,
+  sides: number = 6
+): THREE.BufferGeometry {
+  const direction = to.clone().sub(from);
+  const length = direction.length();
+  return place(
+    new THREE.CylinderGeometry(toRadius, fromRadius, length, sides),
+    from.clone().addScaledVector(direction, 0.5),
+    new THREE.Euler().setFromQuaternion(
+      new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.normalize())
+    )
+  );
+}
+
+/**
+ * Lumpy low-poly ball: an icosahedron with its corners pushed in and out
+ * @param roughness - Largest corner offset, relative to the radius
+ */
+function blob(radius: number, random: Random, roughness: number = 0.15): THREE.BufferGeometry {
+  const geometry = new THREE.IcosahedronGeometry(radius, 0);
+  const position = geometry.getAttribute('position');
+  const offsets = new Map<string, number>();
+  const corner = new THREE.Vector3();
+
+  // Icosahedra are not indexed, so move every copy of a corner alike
+  for (let i = 0; i < position.count; i++) {
+    corner.fromBufferAttribute(position, i);
+    const key = `${corner.x.toFixed(4)},${corner.y.toFixed(4)},${corner.z.toFixed(4)}`;
+    let offset = offsets.get(key);
+    if (offset === undefined) {
+      offset = 1 + random.range(-roughness, roughness);
+      offsets.set(key, offset);
+    }
+    corner.multiplyScalar(offset);
+    position.setXYZ(i, corner.x, corner.y, corner.z);
+  }
+
+  return geometry;
+}
+
+/**
+ * Move, turn and scale a geometry in place
+ */
+function place(
+  geometry: THREE.BufferGeometry,
+  position: THREE.Vector3,
+  rotation: THREE.Euler = new THREE.Euler(),
+  scale: THREE.Vector3 = new THREE.Vector3(1, 1, 1)
+): THREE.BufferGeometry {
+  return geometry.applyMatrix4(
+    new THREE.Matrix4().compose(position, new THREE.Quaternion().setFromEuler(rotation), scale)
+  );
+}
+
+function fallbackMaterial(name: string): THREE.Material {
+  const material = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.8 });
+  material.name = name;
+  return material;
+}
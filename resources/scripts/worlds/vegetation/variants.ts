@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { WindSwayMaterial } from '../materials/WindSwayMaterial';
+
+/**
+ * A variant of a collection model, referenced by suffixing the model name,
+ * e.g. `PineTree_Snow`. Variants are applied to loaded and generated models
+ * alike.
+ */
+export interface ModelVariant {
+  // Recolour a material slot; also applied to per-instance colours
+  color?: (slot: string, color: THREE.Color) => THREE.Color;
+  // Material slots left out of the model
+  hide?: string[];
+  // Recolour faces pointing up as a new `Snow` slot
+  cap?: {
+    color: THREE.Color;
+    // Least cosine between a face normal and up for a face to be covered
+    minimumUp: number;
+  };
+}
+
+const SNOW_COLOR = new THREE.Color(0xf4f8ff);
+const AUTUMN_COLOR = new THREE.Color(0xc8641e);
+const DEAD_BARK_COLOR = new THREE.Color(0x6b6257);
+const DEAD_GRASS_COLOR = new THREE.Color(0x9c8a5a);
+
+// Variants by suffix
+const variants = new Map<string, ModelVariant>([
+  ['Snow', {
+    color: (slot, color) => (slot === 'Leaves' || slot === 'Grass' ? color.lerp(SNOW_COLOR, 0.4) : color),
+    cap: { color: SNOW_COLOR, minimumUp: 0.5 }
+  }],
+  ['Autumn', {
+    color: (slot, color) => (slot === 'Leaves' || slot === 'Grass' ? color.lerp(AUTUMN_COLOR, 0.75) : color)
+  }],
+  ['Dead', {
+    color: (slot, color) => {
+      if (slot === 'Bark') return color.lerp(DEAD_BARK_COLOR, 0.5);
+      if (slot === 'Grass' || slot === 'Cactus') return color.lerp(DEAD_GRASS_COLOR, 0.8);
+      return color;
+    },
+    hide: ['Leaves']
+  }]
+]);
+
+// Recoloured materials by source material and variant, and snow cap
+// materials by variant and wind sway, so versions and planets share them
+const variantMaterials = new Map<string, THREE.Material>();
+const capMaterials = new Map<string, THREE.Material>();
+
+/**
+ * Register a model variant, or replace one
+ * @param suffix - Name suffix selecting the variant, without the underscore
+ * @param variant - How the variant changes the model
+ */
+export function registerModelVariant(suffix: string, variant: ModelVariant): void {
+  variants.set(suffix, variant);
+  for (const key of [...variantMaterials.keys()]) {
+    if (key.endsWith(`:${suffix}`)) variantMaterials.delete(key);
+  }
+  for (const key of [...capMaterials.keys()]) {
+    if (key.startsWith(`${suffix}:`)) capMaterials.delete(key);
+  }
+}
+
+/**
+ * Split a model name into its base name and variant
+ * @param modelName - Model name, possibly with a variant suffix
+ * @returns Base name and variant suffix, or null if the name has no known suffix
+ */
+export function splitVariant(modelName: string): { baseName: string; suffix: string; variant: ModelVariant } | null {
+  const underscore = modelName.lastIndexOf('_');
+  if (underscore <= 0) return null;
+
+  const suffix = modelName.slice(underscore + 1);
+  const variant = variants.get(suffix);
+  return variant ? { baseName: modelName.slice(0, underscore), suffix, variant } : null;
+}
+
+/**
+ * Apply a variant to a model in place. Meshes get recoloured copies of
+ * their materials and are split where faces are capped, so the model no
+ * longer shares those with the model it was cloned from.
+ * @param model - Model whose meshes are named after their material slot
+ * @param suffix - Variant suffix
+ * @returns The model
+ */
+export function applyModelVariant(model: THREE.Object3D, suffix: string): THREE.Object3D {
+  const variant = variants.get(suffix);
+  if (!variant) return model;
+
+  model.updateMatrixWorld(true);
+  const toModel = model.matrixWorld.clone().invert();
+  const meshes: THREE.Mesh[] = [];
+  model.traverse(child => {
+    if (child instanceof THREE.Mesh && !Array.isArray(child.material)) meshes.push(child);
+  });
+
+  for (const mesh of meshes) {
+    const slot = mesh.name.split('_')[0];
+    if (variant.hide?.includes(slot)) {
+      mesh.removeFromParent();
+      continue;
+    }
+
+    if (variant.color) {
+      mesh.material = variantMaterial(mesh.material as THREE.Material, slot, suffix, variant);
+    }
+
+    if (variant.cap) {
+      // Cover the faces pointing up in the model's frame
+      const toMeshModel = toModel.clone().multiply(mesh.matrixWorld);
+      const [rest, capped] = splitFaces(mesh.geometry, toMeshModel, variant.cap.minimumUp);
+      if (capped) {
+        mesh.geometry = rest ?? new THREE.BufferGeometry();
+        // Caps sway with the faces they cover
+        const sway = mesh.material instanceof WindSwayMaterial ? mesh.material.sway : 0;
+        const cap = new THREE.Mesh(capped, capMaterial(suffix, variant.cap.color, sway));
+        cap.name = `Snow_${mesh.name}`;
+        cap.position.copy(mesh.position);
+        cap.quaternion.copy(mesh.quaternion);
+        cap.scale.copy(mesh.scale);
+        mesh.parent?.add(cap);
+        if (!rest) mesh.removeFromParent();
+      }
+    }
+  }
+
+  return model;
+}
+
+/**
+ * Colour a variant gives a material slot colour
+ * @param suffix - Variant suffix
+ * @param slot - Material slot name
+ * @param color - Colour to change in place
+ */
+export function variantColor(suffix: string, slot: string, color: THREE.Color): THREE.Color {
+  return variants.get(suffix)?.color?.(slot, color) ?? color;
+}
+
+function variantMaterial(material: THREE.Material, slot: string, suffix: string, variant: ModelVariant): THREE.Material {
+  const key = `${material.uuid}:${suffix}`;
+  let recolored = variantMaterials.get(key);
+  if (!recolored) {
+    recolored = material.clone();
+    const { color } = recolored as THREE.Material & { color?: unknown };
+    if (color instanceof THREE.Color && variant.color) variant.color(slot, color);
+    variantMaterials.set(key, recolored);
+  }
+  return recolored;
+}
+
+function capMaterial(suffix: string, color: THREE.Color, sway: number): THREE.Material {
+  const key = `${suffix}:${sway}`;
+  let material = capMaterials.get(key);
+  if (!material) {
+    const parameters = { color, roughness: 0.9, metalness: 0 };
+    material = sway > 0 ? new WindSwayMaterial(parameters, sway) : new THREE.MeshStandardMaterial(parameters);
+    material.name = 'Snow';
+    capMaterials.set(key, material);
+  }
+  return material;
+}
+
+/**
+ * Split a geometry into faces pointing away from up and faces pointing up
+ * @param transform - Matrix from geometry space into the frame where +y is up
+ * @param minimumUp - Least cosine between a face normal and up to count as up
+ * @returns The two halves; null for an empty half
+ */
+function splitFaces(
+  geometry: THREE.BufferGeometry,
+  transform: THREE.Matrix4,
+  minimumUp: number
+): [THREE.BufferGeometry | null, THREE.BufferGeometry | null] {
+  const source = geometry.index ? geometry.toNonIndexed() : geometry;
+  const position = source.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const rest: number[] = [];
+  const up: number[] = [];
+
+  for (let face = 0; face < position.count / 3; face++) {
+    a.fromBufferAttribute(position, face * 3).applyMatrix4(transform);
+    b.fromBufferAttribute(position, face * 3 + 1).applyMatrix4(transform);
+    c.fromBufferAttribute(position, face * 3 + 2).applyMatrix4(transform);
+    normal.subVectors(c, b).cross(a.sub(b)).normalize();
+    (normal.y >= minimumUp ? up : rest).push(face);
+  }
+
+  const pick = (faces: number[]): THREE.BufferGeometry | null => {
+    if (faces.length === 0) return null;
+
+    const part = new THREE.BufferGeometry();
+    for (const [name, attribute] of Object.entries(source.attributes)) {
+      const { itemSize } = attribute;
+      const components = [attribute.getX, attribute.getY, attribute.getZ, attribute.getW].slice(0, itemSize);
+      const array = new Float32Array(faces.length * 3 * itemSize);
+      faces.forEach((face, i) => {
+        for (let corner = 0; corner < 3; corner++) {
+          components.forEach((get, k) => {
+            array[(i * 3 + corner) * itemSize + k] = get.call(attribute, face * 3 + corner);
+          });
+        }
+      });
+      part.setAttribute(name, new THREE.BufferAttribute(array, itemSize, attribute.normalized));
+    }
+    return part;
+  };
+
+  const result: [THREE.BufferGeometry | null, THREE.BufferGeometry | null] = [pick(rest), pick(up)];
+  if (source !== geometry) source.dispose();
+  return result;
+}
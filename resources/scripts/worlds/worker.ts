@@ -24,127 +24,6 @@ interface PlanetWorkerOptions {
   vegetationDensity: number;
 }
 
-/**
- * Web Worker implementation of the UberNoise class for use in the worker context
- * This is necessary because we can't import the class directly in the worker
- */
-class WorkerNoise {
-  private seed: number;
-  private scale: number;
-  private octaves: number;
-  private persistence: number;
-  private lacunarity: number;
-  private redistribution: number;
-
-  constructor(seed: number, options: {
-    scale?: number,
-    octaves?: number,
-    persistence?: number,
-    lacunarity?: number,
-    redistribution?: number
-  } = {}) {
-    this.seed = seed;
-    this.scale = options.scale || 1.0;
-    this.octaves = options.octaves || 6;
-    this.persistence = options.persistence || 0.5;
-    this.lacunarity = options.lacunarity || 2.0;
-    this.redistribution = options.redistribution || 1.0;
-  }
-
-  get(x: number, y: number, z: number): number {
-    x = x * this.scale;
-    y = y * this.scale;
-    z = z * this.scale;
-
-    let noise = this.fractalNoise(x, y, z);
-    
-    if (this.redistribution !== 1.0) {
-      noise = Math.pow(Math.abs(noise), this.redistribution) * Math.sign(noise);
-    }
-    
-    return noise;
-  }
-
-  private fractalNoise(x: number, y: number, z: number): number {
-    let amplitude = 1.0;
-    let frequency = 1.0;
-    let noise = 0.0;
-    let maxAmplitude = 0.0;
-
-    for (let i = 0; i < this.octaves; i++) {
-      const n = this.simplexNoise(
-        x * frequency, 
-        y * frequency, 
-        z * frequency, 
-        this.seed + i * 1000
-      );
-      
-      noise += n * amplitude;
-      maxAmplitude += amplitude;
-      amplitude *= this.persistence;
-      frequency *= this.lacunarity;
-    }
-
-    return noise / maxAmplitude;
-  }
-
-  private simplexNoise(x: number, y: number, z: number, seed: number): number {
-    const dot = (x * 12.9898) + (y * 78.233) + (z * 37.719) + seed;
-    const base = Math.sin(dot) * 43758.5453;
-    const noise1 = Math.sin(base * 1.0) * 0.5;
-    const noise2 = Math.sin(base * 1.7 + x * 1.1) * 0.25;
-    const noise3 = Math.sin(base * 2.3 + y * 0.9 + z * 1.3) * 0.125;
-    
-    return (noise1 + noise2 + noise3) * 1.143;
-  }
-
-  getBiome(x: number, y: number, z: number): number {
-    const biomeScale = this.scale * 0.5;
-    const biomeSeed = this.seed + 42424.2;
-    
-    let noise = this.simplexNoise(
-      x * biomeScale,
-      y * biomeScale,
-      z * biomeScale,
-      biomeSeed
-    );
-    
-    noise += this.simplexNoise(
-      x * biomeScale * 2.0,
-      y * biomeScale * 2.0,
-      z * biomeScale * 2.0,
-      biomeSeed + 1000
-    ) * 0.5;
-    
-    return this.normalize(noise);
-  }
-
-  getMoisture(x: number, y: number, z: number): number {
-    const moistureScale = this.scale * 0.7;
-    const moistureSeed = this.seed + 12345.6;
-    
-    let noise = this.simplexNoise(
-      x * moistureScale,
-      y * moistureScale,
-      z * moistureScale,
-      moistureSeed
-    );
-    
-    noise += this.simplexNoise(
-      x * moistureScale * 2.0,
-      y * moistureScale * 2.0,
-      z * moistureScale * 2.0,
-      moistureSeed + 1000
-    ) * 0.5;
-    
-    return this.normalize(noise);
-  }
-
-  private normalize(value: number): number {
-    return (value + 1.0) * 0.5;
-  }
-}
-
 /**
  * Create a planet geometry based on the provided options
  */
@@ -168,7 +47,8 @@ function createGeometry(options: PlanetWorkerOptions) {
   const vegetationPoints: number[][] = [];
   
   // Create noise generator
-  const noise = new WorkerNoise(options.seed, {
+  // Same noise class as the main thread, so both paths produce identical terrain
+  const noise = new UberNoise(options.seed, {
     scale: 1.0,
     octaves: 6,
     persistence: 0.5,
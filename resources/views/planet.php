@@ -3,6 +3,7 @@
   data-preset="<?php echo esc_attr($atts['preset']); ?>"
   data-autorotate="<?php echo esc_attr($atts['autorotate']); ?>"
   data-resolution="<?php echo esc_attr($atts['resolution']); ?>"
+  data-seed="<?php echo esc_attr($atts['seed']); ?>"
   style="width: <?php echo esc_attr($atts['width']); ?>; height: <?php echo esc_attr($atts['height']); ?>;">
   <canvas class="bonsai-planet-canvas"></canvas>
   
@@ -11,6 +12,7 @@
     <button class="bonsai-planet-preset" data-preset="beach">Beach</button>
     <button class="bonsai-planet-preset" data-preset="forest">Forest</button>
     <button class="bonsai-planet-preset" data-preset="snowForest">Snow Forest</button>
+    <button class="bonsai-planet-preset" data-preset="moon">Moon</button>
     <button class="bonsai-planet-random">Random</button>
   </div>
   <?php endif; ?>